@@ -2,6 +2,7 @@ import { ANTIGRAVITY_OAUTH, ANTIGRAVITY_API } from "../config.ts";
 import type { AntigravityAccount, TokenResponse, UserInfo, OAuthCallbackResult } from "../types.ts";
 import { generateRandomState, generateUUID } from "../utils/crypto.ts";
 import { fetchWithTimeout, log } from "../utils/http.ts";
+import { getEndpointPool } from "../proxy/endpoints.ts";
 
 /**
  * Antigravity认证服务
@@ -74,8 +75,9 @@ export class AntigravityAuth {
 
   /**
    * 刷新Access Token
+   * @param proxyUrl 账号级代理 URL
    */
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  async refreshToken(refreshToken: string, proxyUrl?: string): Promise<TokenResponse> {
     const params = new URLSearchParams({
       client_id: ANTIGRAVITY_OAUTH.clientId,
       client_secret: ANTIGRAVITY_OAUTH.clientSecret,
@@ -90,7 +92,7 @@ export class AntigravityAuth {
         "User-Agent": ANTIGRAVITY_API.userAgent,
       },
       body: params.toString(),
-    }, 30000);
+    }, 30000, proxyUrl);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -120,11 +122,9 @@ export class AntigravityAuth {
 
   /**
    * 获取Project ID
+   * @param proxyUrl 账号级代理 URL
    */
-  async fetchProjectId(accessToken: string): Promise<string> {
-    const baseUrl = ANTIGRAVITY_API.baseUrls[0];
-    const url = `${baseUrl}${ANTIGRAVITY_API.paths.loadCodeAssist}`;
-
+  async fetchProjectId(accessToken: string, proxyUrl?: string): Promise<string> {
     const requestBody = {
       metadata: {
         ideType: "IDE_UNSPECIFIED",
@@ -133,15 +133,16 @@ export class AntigravityAuth {
       },
     };
 
-    const response = await fetchWithTimeout(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${accessToken}`,
-        "User-Agent": ANTIGRAVITY_API.userAgent,
-      },
-      body: JSON.stringify(requestBody),
-    }, 30000);
+    const response = await getEndpointPool().fetch(ANTIGRAVITY_API.paths.loadCodeAssist, (url) =>
+      fetchWithTimeout(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${accessToken}`,
+          "User-Agent": ANTIGRAVITY_API.userAgent,
+        },
+        body: JSON.stringify(requestBody),
+      }, 30000, proxyUrl));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -214,7 +215,7 @@ export class AntigravityAuth {
 
     log("info", `账号 ${account.email} 的Token即将过期，正在刷新...`);
 
-    const tokenResponse = await this.refreshToken(account.token.refresh_token);
+    const tokenResponse = await this.refreshToken(account.token.refresh_token, account.proxy_url);
     
     account.token.access_token = tokenResponse.access_token;
     account.token.expires_in = tokenResponse.expires_in;
@@ -79,8 +79,9 @@ export class CodexAuth {
 
   /**
    * 刷新Access Token
+   * @param proxyUrl 账号级代理 URL
    */
-  async refreshToken(refreshToken: string): Promise<TokenResponse> {
+  async refreshToken(refreshToken: string, proxyUrl?: string): Promise<TokenResponse> {
     const params = new URLSearchParams({
       client_id: CODEX_OAUTH.clientId,
       grant_type: "refresh_token",
@@ -95,7 +96,7 @@ export class CodexAuth {
         Accept: "application/json",
       },
       body: params.toString(),
-    }, 30000);
+    }, 30000, proxyUrl);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -158,7 +159,7 @@ export class CodexAuth {
 
     log("info", `账号 ${account.email} 的Token即将过期，正在刷新...`);
 
-    const tokenResponse = await this.refreshToken(account.token.refresh_token);
+    const tokenResponse = await this.refreshToken(account.token.refresh_token, account.proxy_url);
     
     account.token.access_token = tokenResponse.access_token;
     account.token.id_token = tokenResponse.id_token || account.token.id_token;
@@ -1,8 +1,8 @@
 import { QuotaData, ModelQuota } from "../types.ts";
+import { ANTIGRAVITY_API } from "../config.ts";
+import { httpFetch } from "../utils/http.ts";
+import { getEndpointPool } from "../proxy/endpoints.ts";
 
-const QUOTA_API_URL = "https://cloudcode-pa.googleapis.com/v1internal:fetchAvailableModels";
-const LOAD_PROJECT_API_URL = "https://cloudcode-pa.googleapis.com/v1internal:loadCodeAssist";
-const CLOUD_CODE_BASE_URL = "https://cloudcode-pa.googleapis.com";
 const USER_AGENT = "antigravity/1.11.3 Darwin/arm64";
 
 interface LoadProjectResponse {
@@ -34,17 +34,22 @@ interface QuotaInfo {
 /**
  * 获取项目 ID 和订阅类型
  */
-async function fetchProjectId(accessToken: string, email: string): Promise<{ projectId?: string; subscriptionTier?: string }> {
+async function fetchProjectId(
+  accessToken: string,
+  email: string,
+  proxyUrl?: string
+): Promise<{ projectId?: string; subscriptionTier?: string }> {
   try {
-    const response = await fetch(`${CLOUD_CODE_BASE_URL}/v1internal:loadCodeAssist`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${accessToken}`,
-        "Content-Type": "application/json",
-        "User-Agent": "antigravity/windows/amd64",
-      },
-      body: JSON.stringify({ metadata: { ideType: "ANTIGRAVITY" } }),
-    });
+    const response = await getEndpointPool().fetch(ANTIGRAVITY_API.paths.loadCodeAssist, (url) =>
+      httpFetch(url, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+          "User-Agent": "antigravity/windows/amd64",
+        },
+        body: JSON.stringify({ metadata: { ideType: "ANTIGRAVITY" } }),
+      }, proxyUrl));
 
     if (response.ok) {
       const data: LoadProjectResponse = await response.json();
@@ -70,10 +75,15 @@ async function fetchProjectId(accessToken: string, email: string): Promise<{ pro
 
 /**
  * 查询账号配额
+ * @param proxyUrl 账号级代理 URL，省略时使用全局配置
  */
-export async function fetchQuota(accessToken: string, email: string): Promise<{ quota: QuotaData; projectId?: string }> {
+export async function fetchQuota(
+  accessToken: string,
+  email: string,
+  proxyUrl?: string
+): Promise<{ quota: QuotaData; projectId?: string }> {
   // 1. 获取 Project ID 和订阅类型
-  const { projectId, subscriptionTier } = await fetchProjectId(accessToken, email);
+  const { projectId, subscriptionTier } = await fetchProjectId(accessToken, email, proxyUrl);
   
   const finalProjectId = projectId || "bamboo-precept-lgxtn";
   
@@ -86,15 +96,16 @@ export async function fetchQuota(accessToken: string, email: string): Promise<{
 
   for (let attempt = 1; attempt <= maxRetries; attempt++) {
     try {
-      const response = await fetch(QUOTA_API_URL, {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${accessToken}`,
-          "User-Agent": USER_AGENT,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(payload),
-      });
+      const response = await getEndpointPool().fetch(ANTIGRAVITY_API.paths.fetchAvailableModels, (url) =>
+        httpFetch(url, {
+          method: "POST",
+          headers: {
+            "Authorization": `Bearer ${accessToken}`,
+            "User-Agent": USER_AGENT,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(payload),
+        }, proxyUrl));
 
       if (response.status === 403) {
         console.warn(`账号无权限 (403 Forbidden), 标记为 forbidden 状态`);
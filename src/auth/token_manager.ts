@@ -91,7 +91,10 @@ export class TokenManager {
     // 确保有project_id
     if (!account.token.project_id) {
       try {
-        const projectId = await this.antigravityAuth.fetchProjectId(account.token.access_token);
+        const projectId = await this.antigravityAuth.fetchProjectId(
+          account.token.access_token,
+          account.proxy_url
+        );
         account.token.project_id = projectId;
         await this.storage.saveAntigravityAccount(account);
       } catch (error) {
@@ -1,4 +1,4 @@
-import type { AppConfig } from "./types.ts";
+import type { AppConfig, TimeoutPolicy } from "./types.ts";
 import { join } from "@std/path";
 
 // 检测是否在 Deno Deploy 环境
@@ -14,6 +14,33 @@ const DEFAULT_CONFIG: AppConfig = {
   authDir: "./data/accounts",
   requestTimeout: 300,
   maxRetries: 3,
+  timeouts: {
+    connect: 0,
+    firstByte: 0,
+    idle: 120,
+    models: {},
+  },
+  media: {
+    fetchRemote: true,
+    maxBytes: 20 * 1024 * 1024,
+    allowedMimeTypes: ["image/", "audio/", "video/", "application/pdf", "text/"],
+    fetchTimeout: 30,
+    cacheEnabled: true,
+    cacheTtl: 600,
+    cacheMaxEntries: 100,
+  },
+  images: {
+    chatOutput: "markdown",
+    model: "gemini-3-pro-image-preview",
+    fileTtl: 3600,
+    maxFiles: 200,
+  },
+  structuredOutputRetries: 1,
+  unsupportedParams: "ignore",
+  systemMessagePlacement: "system_instruction",
+  contextLengthCheck: false,
+  firstChunkTimeout: 60,
+  endpointCooldown: 60,
   debug: false,
 };
 
@@ -130,6 +157,10 @@ export async function loadConfig(configPath?: string): Promise<AppConfig> {
       const configText = await Deno.readTextFile(configPath);
       const fileConfig = JSON.parse(configText);
       config = { ...config, ...fileConfig };
+      // 嵌套配置按字段合并，允许只覆盖部分选项
+      config.media = { ...DEFAULT_CONFIG.media!, ...fileConfig.media };
+      config.images = { ...DEFAULT_CONFIG.images!, ...fileConfig.images };
+      config.timeouts = { ...DEFAULT_CONFIG.timeouts!, ...fileConfig.timeouts };
     } catch (error) {
       if (!(error instanceof Deno.errors.NotFound)) {
         console.error(`配置文件加载失败: ${error}`);
@@ -168,6 +199,27 @@ export async function saveConfig(config: AppConfig, configPath: string): Promise
   _config = config;
 }
 
+/**
+ * 获取上游请求超时策略
+ * 模型配置覆盖全局配置；未配置 total 时，非流式请求使用 requestTimeout，流式请求不限制（由 idle 控制）
+ * @param model 模型名称（别名或上游名称），省略时返回全局策略
+ * @param stream 是否为流式请求
+ */
+export function getTimeoutPolicy(model?: string, stream: boolean = false): TimeoutPolicy {
+  const config = getConfig();
+  const { models, ...global } = config.timeouts || {};
+  const override = model ? models?.[model] ?? models?.[getModelAlias(model)] : undefined;
+
+  return {
+    connect: 0,
+    firstByte: 0,
+    idle: 0,
+    total: stream ? 0 : config.requestTimeout,
+    ...global,
+    ...override,
+  };
+}
+
 /**
  * 检查是否在 Deno Deploy 环境
  */
@@ -390,12 +442,33 @@ export const ANTIGRAVITY_MODELS: AntigravityModel[] = [
   },
 ];
 
+/**
+ * 解析模型名后缀
+ * 例如: "gpt-5(high)" -> { model: "gpt-5", suffix: "high" }
+ *       "gemini-2.5-pro(8192)" -> { model: "gemini-2.5-pro", suffix: "8192" }
+ */
+export function parseModelSuffix(modelId: string): { model: string; suffix?: string } {
+  const match = modelId.match(/^(.+?)\(([^)]+)\)$/);
+  if (match) {
+    return { model: match[1].trim(), suffix: match[2].trim() };
+  }
+  return { model: modelId };
+}
+
+/**
+ * 查找 Antigravity 模型定义
+ */
+export function getAntigravityModel(modelId: string): AntigravityModel | undefined {
+  const { model } = parseModelSuffix(modelId);
+  return ANTIGRAVITY_MODELS.find((m) => m.id === model || m.id === getModelAlias(model));
+}
+
 /**
  * 检查模型是否为 Codex 模型
  */
 export function isCodexModel(modelId: string): boolean {
   // 提取基础模型名（去除 thinking level 后缀如 "(high)"）
-  const baseModel = modelId.replace(/\([^)]+\)$/, "").trim();
+  const baseModel = parseModelSuffix(modelId).model;
   return CODEX_MODELS.some((m) => m.id === baseModel || baseModel.startsWith("gpt-5"));
 }
 
@@ -403,7 +476,7 @@ export function isCodexModel(modelId: string): boolean {
  * 检查模型是否为 Antigravity 模型
  */
 export function isAntigravityModel(modelId: string): boolean {
-  const baseModel = modelId.replace(/\([^)]+\)$/, "").trim();
+  const baseModel = parseModelSuffix(modelId).model;
   return (
     ANTIGRAVITY_MODELS.some((m) => m.id === baseModel) ||
     baseModel.startsWith("gemini-") ||
@@ -0,0 +1,49 @@
+import { assertEquals } from "@std/assert";
+import type { TimeoutsConfig } from "./types.ts";
+import { getConfig, getTimeoutPolicy, loadConfig } from "./config.ts";
+
+await loadConfig();
+
+/**
+ * 临时替换超时配置执行测试，结束后恢复
+ */
+function withTimeouts(timeouts: TimeoutsConfig, fn: () => void): void {
+  const config = getConfig();
+  const saved = { timeouts: config.timeouts, requestTimeout: config.requestTimeout };
+  config.timeouts = timeouts;
+  config.requestTimeout = 300;
+  try {
+    fn();
+  } finally {
+    config.timeouts = saved.timeouts;
+    config.requestTimeout = saved.requestTimeout;
+  }
+}
+
+Deno.test("getTimeoutPolicy - non-streaming requests default to requestTimeout", () => {
+  withTimeouts({ idle: 120 }, () => {
+    assertEquals(getTimeoutPolicy(), { connect: 0, firstByte: 0, idle: 120, total: 300 });
+  });
+});
+
+Deno.test("getTimeoutPolicy - streaming requests have no total limit by default", () => {
+  withTimeouts({ idle: 120 }, () => {
+    assertEquals(getTimeoutPolicy("gemini-2.5-flash", true), { connect: 0, firstByte: 0, idle: 120, total: 0 });
+  });
+});
+
+Deno.test("getTimeoutPolicy - a configured total applies to streaming requests too", () => {
+  withTimeouts({ connect: 10, total: 600 }, () => {
+    assertEquals(getTimeoutPolicy(undefined, true), { connect: 10, firstByte: 0, idle: 0, total: 600 });
+    assertEquals(getTimeoutPolicy(undefined, false).total, 600);
+  });
+});
+
+Deno.test("getTimeoutPolicy - per-model overrides match the alias or the upstream name", () => {
+  withTimeouts({ idle: 120, models: { "gemini-3-pro-preview": { firstByte: 90, idle: 300 } } }, () => {
+    const expected = { connect: 0, firstByte: 90, idle: 300, total: 300 };
+    assertEquals(getTimeoutPolicy("gemini-3-pro-preview"), expected);
+    assertEquals(getTimeoutPolicy("gemini-3-pro-high"), expected);
+    assertEquals(getTimeoutPolicy("gemini-2.5-flash").idle, 120);
+  });
+});
\ No newline at end of file
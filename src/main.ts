@@ -6,7 +6,7 @@ import { createAccountStorage } from "./auth/store.ts";
 import { createTokenManager } from "./auth/token_manager.ts";
 import { createApiRoutes } from "./routes/api.ts";
 import { createManagementRoutes } from "./routes/management.ts";
-import { log as appLog } from "./utils/http.ts";
+import { log as appLog, parseProxyUrl } from "./utils/http.ts";
 
 /**
  * 主程序入口
@@ -17,6 +17,15 @@ async function main(): Promise<void> {
   await loadConfig(configPath);
   const config = getConfig();
 
+  // 全局代理无效时拒绝启动，而不是让每个请求都失败
+  if (config.upstreamProxy?.enabled) {
+    try {
+      parseProxyUrl(config.upstreamProxy.url);
+    } catch (error) {
+      throw new Error(`upstreamProxy.url: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
   appLog("info", "正在启动 Antigravity Deno API 服务...");
   appLog("info", `数据目录: ${config.dataDir}`);
   appLog("info", `账号目录: ${config.authDir}`);
@@ -0,0 +1,524 @@
+import type {
+  AnthropicContentBlock,
+  AnthropicMessagesRequest,
+  AnthropicMessagesResponse,
+  AnthropicToolResultBlock,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ContentPart,
+  StreamToolCallDelta,
+  ToolCall,
+} from "../types.ts";
+import { readSSEStream, log } from "../utils/http.ts";
+import { generateUUID } from "../utils/crypto.ts";
+import { getSignatureCache, SKIP_THOUGHT_SIGNATURE } from "./signature_cache.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[anthropic] ${msg}`),
+  error: (msg: string) => log("error", `[anthropic] ${msg}`),
+};
+
+type AnthropicStopReason = AnthropicMessagesResponse["stop_reason"];
+
+/**
+ * 规范化 Anthropic 模型名
+ * Claude 客户端常带日期后缀，例如 "claude-sonnet-4-5-20250929" -> "claude-sonnet-4-5"
+ */
+export function normalizeAnthropicModel(model: string): string {
+  return model.replace(/-\d{8}$/, "");
+}
+
+/**
+ * Anthropic 图片块转 OpenAI 内容部分
+ */
+function imageBlockToContentPart(block: AnthropicContentBlock): ContentPart | null {
+  if (block.type !== "image") return null;
+  const url = block.source.type === "base64"
+    ? `data:${block.source.media_type};base64,${block.source.data}`
+    : block.source.url;
+  return { type: "image_url", image_url: { url } };
+}
+
+/**
+ * 工具结果内容转字符串
+ */
+function toolResultToString(block: AnthropicToolResultBlock): string {
+  if (typeof block.content === "string") {
+    return block.content;
+  }
+  if (Array.isArray(block.content)) {
+    return block.content
+      .filter((b) => b.type === "text")
+      .map((b) => (b as { text: string }).text)
+      .join("\n");
+  }
+  return "";
+}
+
+/**
+ * Anthropic 请求转 OpenAI 聊天完成请求
+ */
+export function translateAnthropicToOpenAI(request: AnthropicMessagesRequest): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+
+  // 系统提示
+  if (request.system) {
+    const systemText = typeof request.system === "string"
+      ? request.system
+      : request.system.map((b) => b.text).join("\n");
+    if (systemText) {
+      messages.push({ role: "system", content: systemText });
+    }
+  }
+
+  for (const message of request.messages) {
+    if (typeof message.content === "string") {
+      messages.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    if (message.role === "assistant") {
+      let text = "";
+      let reasoning = "";
+      let reasoningSignature: string | undefined;
+      const redactedReasoning: string[] = [];
+      const toolCalls: ToolCall[] = [];
+
+      for (const block of message.content) {
+        if (block.type === "text") {
+          text += block.text;
+        } else if (block.type === "thinking") {
+          reasoning += block.thinking;
+          reasoningSignature = block.signature || reasoningSignature;
+        } else if (block.type === "redacted_thinking") {
+          redactedReasoning.push(block.data);
+        } else if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: {
+              name: block.name,
+              arguments: JSON.stringify(block.input ?? {}),
+            },
+          });
+        }
+      }
+
+      const assistantMessage: ChatMessage = { role: "assistant", content: text || null };
+      if (reasoning) assistantMessage.reasoning_content = reasoning;
+      if (reasoning && reasoningSignature) assistantMessage.reasoning_signature = reasoningSignature;
+      if (redactedReasoning.length > 0) assistantMessage.redacted_reasoning = redactedReasoning;
+      if (toolCalls.length > 0) assistantMessage.tool_calls = toolCalls;
+      messages.push(assistantMessage);
+      continue;
+    }
+
+    // user消息：tool_result 需要先于普通内容作为 tool 消息发送
+    const parts: ContentPart[] = [];
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        const content = toolResultToString(block);
+        messages.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content: block.is_error ? JSON.stringify({ error: content }) : content,
+        });
+      } else if (block.type === "text") {
+        parts.push({ type: "text", text: block.text });
+      } else if (block.type === "image") {
+        const part = imageBlockToContentPart(block);
+        if (part) parts.push(part);
+      }
+    }
+
+    if (parts.length > 0) {
+      messages.push({ role: "user", content: parts });
+    }
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: normalizeAnthropicModel(request.model),
+    messages,
+    stream: request.stream,
+    max_tokens: request.max_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    top_k: request.top_k,
+    stop: request.stop_sequences,
+    user: request.metadata?.user_id,
+    thinking: request.thinking,
+  };
+
+  // 流式请求需要用量chunk来填充 message_delta.usage
+  if (request.stream) {
+    chatRequest.stream_options = { include_usage: true };
+  }
+
+  if (request.tools && request.tools.length > 0) {
+    chatRequest.tools = request.tools.map((t) => ({
+      type: "function",
+      function: {
+        name: t.name,
+        description: t.description,
+        parameters: t.input_schema,
+      },
+    }));
+  }
+
+  if (request.tool_choice) {
+    switch (request.tool_choice.type) {
+      case "any":
+        chatRequest.tool_choice = "required";
+        break;
+      case "none":
+        chatRequest.tool_choice = "none";
+        break;
+      case "tool":
+        if (request.tool_choice.name) {
+          chatRequest.tool_choice = { type: "function", function: { name: request.tool_choice.name } };
+        }
+        break;
+      default:
+        chatRequest.tool_choice = "auto";
+    }
+  }
+
+  return chatRequest;
+}
+
+/**
+ * 映射 OpenAI finish_reason 到 Anthropic stop_reason
+ */
+function mapStopReason(reason: string | null | undefined): AnthropicStopReason {
+  switch (reason) {
+    case "length":
+      return "max_tokens";
+    case "tool_calls":
+    case "function_call":
+      return "tool_use";
+    case "content_filter":
+      return "refusal";
+    default:
+      return "end_turn";
+  }
+}
+
+/**
+ * 解析工具参数
+ */
+function parseToolInput(args: string): Record<string, unknown> {
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * thinking 块的签名
+ * 优先使用上游返回的 thoughtSignature，其次查缓存，均缺失时（如 Codex 模型）使用跳过校验的占位值；
+ * 客户端回传 thinking 块时，签名随思考内容一起转发给上游
+ * @param signature 上游随思考内容返回的签名
+ * @param sessionId 请求的 session ID（见 getRequestSessionId）
+ */
+function thinkingSignature(signature: string | undefined, sessionId: string | undefined, thinking: string): string {
+  return signature || (sessionId && getSignatureCache().getThought(sessionId, thinking)) || SKIP_THOUGHT_SIGNATURE;
+}
+
+/**
+ * OpenAI 聊天完成响应转 Anthropic 响应
+ * @param sessionId 请求的 session ID，用于查找 thinking 块的签名
+ */
+export function translateOpenAIToAnthropic(
+  response: ChatCompletionResponse,
+  model: string,
+  sessionId?: string
+): AnthropicMessagesResponse {
+  const choice = response.choices?.[0];
+  const message = choice?.message;
+  const content: AnthropicContentBlock[] = [];
+
+  if (message?.reasoning_content) {
+    content.push({
+      type: "thinking",
+      thinking: message.reasoning_content,
+      signature: thinkingSignature(message.reasoning_signature, sessionId, message.reasoning_content),
+    });
+  }
+
+  if (typeof message?.content === "string" && message.content) {
+    content.push({ type: "text", text: message.content });
+  }
+
+  for (const toolCall of message?.tool_calls || []) {
+    content.push({
+      type: "tool_use",
+      id: toolCall.id,
+      name: toolCall.function.name,
+      input: parseToolInput(toolCall.function.arguments),
+    });
+  }
+
+  return {
+    id: `msg_${generateUUID().replace(/-/g, "")}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: mapStopReason(choice?.finish_reason),
+    stop_sequence: null,
+    usage: {
+      input_tokens: response.usage?.prompt_tokens || 0,
+      output_tokens: response.usage?.completion_tokens || 0,
+    },
+  };
+}
+
+/**
+ * 将 OpenAI chat.completion.chunk 流转换为 Anthropic SSE 事件流
+ * @param sessionId 请求的 session ID，用于查找 thinking 块的签名
+ */
+export function createAnthropicStream(
+  openaiResponse: Response,
+  model: string,
+  sessionId?: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const messageId = `msg_${generateUUID().replace(/-/g, "")}`;
+  // 客户端取消读取时取消内部聊天响应（进而中止上游请求）
+  const upstreamAbort = new AbortController();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: string, data: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify({ type: event, ...data })}\n\n`));
+      };
+
+      let blockIndex = -1;
+      let openBlock: "text" | "thinking" | "tool_use" | null = null;
+      let openToolKey: string | null = null;
+      let thinkingText = "";
+      let thinkingSignatureValue: string | undefined;
+      let stopReason: AnthropicStopReason = "end_turn";
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      const closeBlock = () => {
+        if (openBlock === "thinking") {
+          send("content_block_delta", {
+            index: blockIndex,
+            delta: {
+              type: "signature_delta",
+              signature: thinkingSignature(thinkingSignatureValue, sessionId, thinkingText),
+            },
+          });
+          thinkingText = "";
+          thinkingSignatureValue = undefined;
+        }
+        if (openBlock) {
+          send("content_block_stop", { index: blockIndex });
+          openBlock = null;
+          openToolKey = null;
+        }
+      };
+
+      const openNewBlock = (type: "text" | "thinking" | "tool_use", contentBlock: Record<string, unknown>) => {
+        closeBlock();
+        blockIndex++;
+        openBlock = type;
+        send("content_block_start", { index: blockIndex, content_block: contentBlock });
+      };
+
+      send("message_start", {
+        message: {
+          id: messageId,
+          type: "message",
+          role: "assistant",
+          model,
+          content: [],
+          stop_reason: null,
+          stop_sequence: null,
+          usage: { input_tokens: 0, output_tokens: 0 },
+        },
+      });
+
+      try {
+        for await (const data of readSSEStream(openaiResponse, upstreamAbort.signal)) {
+          let chunk: Record<string, unknown>;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            logger.debug(`Skipping unparsable chunk: ${data}`);
+            continue;
+          }
+
+          if (chunk.error) {
+            const error = chunk.error as { message?: string };
+            closeBlock();
+            send("error", { error: { type: "api_error", message: error.message || "Upstream stream error" } });
+            controller.close();
+            return;
+          }
+
+          const usage = chunk.usage as { prompt_tokens?: number; completion_tokens?: number } | undefined;
+          if (usage) {
+            inputTokens = usage.prompt_tokens || inputTokens;
+            outputTokens = usage.completion_tokens || outputTokens;
+          }
+
+          const choices = chunk.choices as Array<{
+            delta?: {
+              content?: string | null;
+              reasoning_content?: string | null;
+              reasoning_signature?: string;
+              tool_calls?: StreamToolCallDelta[];
+            };
+            finish_reason?: string | null;
+          }> | undefined;
+          const choice = choices?.[0];
+          if (!choice) continue;
+
+          const delta = choice.delta || {};
+
+          if (delta.reasoning_content) {
+            if (openBlock !== "thinking") {
+              openNewBlock("thinking", { type: "thinking", thinking: "", signature: "" });
+            }
+            thinkingText += delta.reasoning_content;
+            send("content_block_delta", {
+              index: blockIndex,
+              delta: { type: "thinking_delta", thinking: delta.reasoning_content },
+            });
+          }
+
+          // 签名在思考块结束（signature_delta）时发送
+          if (delta.reasoning_signature && openBlock === "thinking") {
+            thinkingSignatureValue = delta.reasoning_signature;
+          }
+
+          if (delta.content) {
+            if (openBlock !== "text") {
+              openNewBlock("text", { type: "text", text: "" });
+            }
+            send("content_block_delta", {
+              index: blockIndex,
+              delta: { type: "text_delta", text: delta.content },
+            });
+          }
+
+          if (delta.tool_calls) {
+            for (const toolCall of delta.tool_calls) {
+              // 带 index 的增量按 index 归并，否则按 id 区分，均无则视为当前工具块的延续
+              const key: string | null = toolCall.index !== undefined
+                ? `index-${toolCall.index}`
+                : toolCall.id || openToolKey;
+
+              if (openBlock !== "tool_use" || key !== openToolKey) {
+                openNewBlock("tool_use", {
+                  type: "tool_use",
+                  id: toolCall.id || `toolu_${generateUUID().replace(/-/g, "").slice(0, 24)}`,
+                  name: toolCall.function?.name || "",
+                  input: {},
+                });
+                openToolKey = key;
+              }
+
+              if (toolCall.function?.arguments) {
+                send("content_block_delta", {
+                  index: blockIndex,
+                  delta: { type: "input_json_delta", partial_json: toolCall.function.arguments },
+                });
+              }
+            }
+          }
+
+          if (choice.finish_reason) {
+            stopReason = mapStopReason(choice.finish_reason);
+          }
+        }
+
+        // 客户端已取消读取，不再发送结束事件
+        if (upstreamAbort.signal.aborted) return;
+
+        closeBlock();
+        send("message_delta", {
+          delta: { stop_reason: stopReason, stop_sequence: null },
+          usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+        });
+        send("message_stop", {});
+        controller.close();
+      } catch (error) {
+        if (upstreamAbort.signal.aborted) return;
+
+        logger.error(`Anthropic stream transform error: ${error}`);
+        closeBlock();
+        send("error", { error: { type: "api_error", message: String(error) } });
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      upstreamAbort.abort(reason);
+    },
+  });
+}
+
+/**
+ * 映射 HTTP 状态码到 Anthropic 错误类型
+ */
+function anthropicErrorType(status: number): string {
+  switch (status) {
+    case 400:
+      return "invalid_request_error";
+    case 401:
+      return "authentication_error";
+    case 403:
+      return "permission_error";
+    case 404:
+      return "not_found_error";
+    case 429:
+      return "rate_limit_error";
+    case 529:
+      return "overloaded_error";
+    default:
+      return "api_error";
+  }
+}
+
+/**
+ * Anthropic 格式错误响应
+ */
+export function anthropicErrorResponse(status: number, message: string): Response {
+  return new Response(
+    JSON.stringify({
+      type: "error",
+      error: {
+        type: anthropicErrorType(status),
+        message,
+      },
+    }),
+    {
+      status,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    }
+  );
+}
+
+/**
+ * 将 OpenAI 格式的错误响应转换为 Anthropic 格式
+ */
+export async function translateErrorToAnthropic(response: Response): Promise<Response> {
+  let message = `Upstream error: ${response.status}`;
+  try {
+    const data = await response.json() as { error?: { message?: string } };
+    if (data.error?.message) {
+      message = data.error.message;
+    }
+  } catch {
+    // 忽略解析失败
+  }
+  return anthropicErrorResponse(response.status, message);
+}
\ No newline at end of file
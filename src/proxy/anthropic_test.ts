@@ -0,0 +1,312 @@
+import { assertEquals } from "@std/assert";
+import type { ChatCompletionResponse } from "../types.ts";
+import {
+  anthropicErrorResponse,
+  createAnthropicStream,
+  translateAnthropicToOpenAI,
+  translateOpenAIToAnthropic,
+} from "./anthropic.ts";
+import { SKIP_THOUGHT_SIGNATURE } from "./signature_cache.ts";
+
+/**
+ * 由 chat.completion.chunk 列表构造 SSE 响应
+ */
+function chunkResponse(chunks: unknown[]): Response {
+  const body = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+/**
+ * 读取 Anthropic SSE 流中的全部事件数据
+ */
+async function readAnthropicEvents(stream: ReadableStream<Uint8Array>): Promise<Array<Record<string, unknown>>> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((event) => JSON.parse(event.split("\n").find((line) => line.startsWith("data: "))!.slice(6)));
+}
+
+/**
+ * 只有一个 choice 的 chat.completion.chunk
+ */
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null) {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gemini-2.5-flash",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * 只有一条 assistant 消息的聊天响应
+ */
+function chatResponse(
+  message: ChatCompletionResponse["choices"][number]["message"],
+  finishReason: ChatCompletionResponse["choices"][number]["finish_reason"] = "stop"
+): ChatCompletionResponse {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 0,
+    model: "gemini-2.5-flash",
+    choices: [{ index: 0, message, finish_reason: finishReason }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  };
+}
+
+Deno.test("translateAnthropicToOpenAI - translates system, tool results, images and tools", () => {
+  const request = translateAnthropicToOpenAI({
+    model: "claude-sonnet-4-5",
+    max_tokens: 1024,
+    stream: true,
+    system: [{ type: "text", text: "Be brief." }, { type: "text", text: "Use tools." }],
+    stop_sequences: ["END"],
+    messages: [
+      { role: "user", content: "What's the weather?" },
+      {
+        role: "assistant",
+        content: [{ type: "tool_use", id: "toolu_1", name: "get_weather", input: { city: "Paris" } }],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Here you go" },
+          { type: "tool_result", tool_use_id: "toolu_1", content: [{ type: "text", text: "Sunny" }] },
+          { type: "image", source: { type: "base64", media_type: "image/png", data: "AAAA" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [{ type: "tool_result", tool_use_id: "toolu_2", content: "boom", is_error: true }],
+      },
+    ],
+    tools: [{ name: "get_weather", description: "Weather", input_schema: { type: "object" } }],
+    tool_choice: { type: "tool", name: "get_weather" },
+  });
+
+  assertEquals(request.messages, [
+    { role: "system", content: "Be brief.\nUse tools." },
+    { role: "user", content: "What's the weather?" },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [{ id: "toolu_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+    },
+    { role: "tool", tool_call_id: "toolu_1", content: "Sunny" },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "Here you go" },
+        { type: "image_url", image_url: { url: "data:image/png;base64,AAAA" } },
+      ],
+    },
+    { role: "tool", tool_call_id: "toolu_2", content: '{"error":"boom"}' },
+  ]);
+  assertEquals(request.stop, ["END"]);
+  assertEquals(request.stream_options, { include_usage: true });
+  assertEquals(request.tools, [
+    { type: "function", function: { name: "get_weather", description: "Weather", parameters: { type: "object" } } },
+  ]);
+  assertEquals(request.tool_choice, { type: "function", function: { name: "get_weather" } });
+});
+
+Deno.test("translateAnthropicToOpenAI - maps tool_choice", () => {
+  const cases = [
+    { toolChoice: { type: "auto" as const }, expected: "auto" },
+    { toolChoice: { type: "any" as const }, expected: "required" },
+    { toolChoice: { type: "none" as const }, expected: "none" },
+  ];
+
+  for (const { toolChoice, expected } of cases) {
+    const request = translateAnthropicToOpenAI({
+      model: "claude-sonnet-4-5",
+      max_tokens: 1024,
+      messages: [{ role: "user", content: "hi" }],
+      tool_choice: toolChoice,
+    });
+    assertEquals(request.tool_choice, expected, toolChoice.type);
+  }
+});
+
+Deno.test("translateOpenAIToAnthropic - translates tool calls, usage and stop reasons", () => {
+  const response = translateOpenAIToAnthropic(
+    chatResponse({
+      role: "assistant",
+      content: "Checking.",
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+    }, "tool_calls"),
+    "claude-sonnet-4-5"
+  );
+
+  assertEquals(response.content, [
+    { type: "text", text: "Checking." },
+    { type: "tool_use", id: "call_1", name: "get_weather", input: { city: "Paris" } },
+  ]);
+  assertEquals(response.stop_reason, "tool_use");
+  assertEquals(response.usage, { input_tokens: 10, output_tokens: 5 });
+
+  const cases = [
+    { finishReason: "stop" as const, expected: "end_turn" },
+    { finishReason: "length" as const, expected: "max_tokens" },
+    { finishReason: "content_filter" as const, expected: "refusal" },
+  ];
+  for (const { finishReason, expected } of cases) {
+    const { stop_reason } = translateOpenAIToAnthropic(
+      chatResponse({ role: "assistant", content: "Hi" }, finishReason),
+      "claude-sonnet-4-5"
+    );
+    assertEquals(stop_reason, expected, finishReason);
+  }
+});
+
+Deno.test("translateAnthropicToOpenAI - keeps thinking signatures and redacted thinking", () => {
+  const request = translateAnthropicToOpenAI({
+    model: "claude-sonnet-4-5-20250929",
+    max_tokens: 1024,
+    messages: [
+      { role: "user", content: "hi" },
+      {
+        role: "assistant",
+        content: [
+          { type: "thinking", thinking: "Let me think.", signature: "sig-1" },
+          { type: "redacted_thinking", data: "encrypted" },
+          { type: "text", text: "Hello" },
+        ],
+      },
+    ],
+  });
+
+  assertEquals(request.model, "claude-sonnet-4-5");
+  assertEquals(request.messages[1], {
+    role: "assistant",
+    content: "Hello",
+    reasoning_content: "Let me think.",
+    reasoning_signature: "sig-1",
+    redacted_reasoning: ["encrypted"],
+  });
+});
+
+Deno.test("translateOpenAIToAnthropic - thinking blocks carry the upstream signature", () => {
+  const cases = [
+    { name: "upstream signature", signature: "sig-1", expected: "sig-1" },
+    { name: "no signature", signature: undefined, expected: SKIP_THOUGHT_SIGNATURE },
+  ];
+
+  for (const { name, signature, expected } of cases) {
+    const response = translateOpenAIToAnthropic(
+      chatResponse({ role: "assistant", content: "Hello", reasoning_content: "Let me think.", reasoning_signature: signature }),
+      "claude-sonnet-4-5"
+    );
+    assertEquals(response.content[0], { type: "thinking", thinking: "Let me think.", signature: expected }, name);
+  }
+});
+
+Deno.test("createAnthropicStream - signature_delta uses the streamed signature", async () => {
+  const events = await readAnthropicEvents(createAnthropicStream(
+    chunkResponse([
+      chunk({ role: "assistant", content: "" }),
+      chunk({ reasoning_content: "Let me think." }),
+      chunk({ reasoning_signature: "sig-1", content: "Hello" }),
+      chunk({}, "stop"),
+    ]),
+    "claude-sonnet-4-5"
+  ));
+
+  assertEquals(events.map((event) => event.type), [
+    "message_start",
+    "content_block_start",
+    "content_block_delta",
+    "content_block_delta",
+    "content_block_stop",
+    "content_block_start",
+    "content_block_delta",
+    "content_block_stop",
+    "message_delta",
+    "message_stop",
+  ]);
+  assertEquals(events[3], { type: "content_block_delta", index: 0, delta: { type: "signature_delta", signature: "sig-1" } });
+});
+
+Deno.test("createAnthropicStream - indexed tool call deltas become tool_use blocks", async () => {
+  const events = await readAnthropicEvents(createAnthropicStream(
+    chunkResponse([
+      chunk({ role: "assistant", content: "Checking." }),
+      chunk({ tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "a", arguments: "" } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: '{"x":1}' } }] }),
+      chunk({ tool_calls: [{ index: 1, id: "call_2", type: "function", function: { name: "b", arguments: "{}" } }] }),
+      chunk({}, "tool_calls"),
+      { id: "chatcmpl-1", object: "chat.completion.chunk", created: 0, model: "gemini-2.5-flash", choices: [], usage: { prompt_tokens: 10, completion_tokens: 5 } },
+    ]),
+    "claude-sonnet-4-5"
+  ));
+
+  const starts = events.filter((event) => event.type === "content_block_start").map((event) => event.content_block);
+  assertEquals(starts, [
+    { type: "text", text: "" },
+    { type: "tool_use", id: "call_1", name: "a", input: {} },
+    { type: "tool_use", id: "call_2", name: "b", input: {} },
+  ]);
+  const jsonDeltas = events
+    .filter((event) => (event.delta as { type?: string })?.type === "input_json_delta")
+    .map((event) => [event.index, (event.delta as { partial_json: string }).partial_json]);
+  assertEquals(jsonDeltas, [[1, '{"x":1}'], [2, "{}"]]);
+  assertEquals(events.at(-2), {
+    type: "message_delta",
+    delta: { stop_reason: "tool_use", stop_sequence: null },
+    usage: { input_tokens: 10, output_tokens: 5 },
+  });
+});
+
+Deno.test("createAnthropicStream - an error chunk closes the open block and emits an error event", async () => {
+  const events = await readAnthropicEvents(createAnthropicStream(
+    chunkResponse([
+      chunk({ role: "assistant", content: "Hel" }),
+      { error: { message: "Upstream stream failed", type: "upstream_error", code: 502 } },
+    ]),
+    "claude-sonnet-4-5"
+  ));
+
+  assertEquals(events.map((event) => event.type), [
+    "message_start",
+    "content_block_start",
+    "content_block_delta",
+    "content_block_stop",
+    "error",
+  ]);
+  assertEquals(events.at(-1), { type: "error", error: { type: "api_error", message: "Upstream stream failed" } });
+});
+
+Deno.test("anthropicErrorResponse - maps status codes to Anthropic error types", async () => {
+  const cases = [
+    { status: 400, expected: "invalid_request_error" },
+    { status: 401, expected: "authentication_error" },
+    { status: 429, expected: "rate_limit_error" },
+    { status: 529, expected: "overloaded_error" },
+    { status: 502, expected: "api_error" },
+  ];
+
+  for (const { status, expected } of cases) {
+    const response = anthropicErrorResponse(status, "boom");
+    assertEquals(response.status, status);
+    assertEquals(await response.json(), { type: "error", error: { type: expected, message: "boom" } }, String(status));
+  }
+});
+Deno.test("createAnthropicStream - cancelling the stream cancels the chat response", async () => {
+  let cancelled = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk({ content: "Hel" }))}\n\n`));
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  const reader = createAnthropicStream(new Response(body), "claude-sonnet-4-5").getReader();
+  await reader.read();
+  await reader.cancel();
+  assertEquals(cancelled, true);
+});
\ No newline at end of file
@@ -1,8 +1,42 @@
-import type { ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk } from "../types.ts";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionChunk,
+  ResponsesItem,
+  ResponsesRequest,
+  ResponsesResponse,
+} from "../types.ts";
 import { TokenManager } from "../auth/token_manager.ts";
-import { log, errorResponse, jsonResponse } from "../utils/http.ts";
+import {
+  log,
+  errorResponse,
+  jsonResponse,
+  sseErrorEvent,
+  createLinkedAbortController,
+  cancelledResponse,
+} from "../utils/http.ts";
 import { generateUUID } from "../utils/crypto.ts";
-import { getConfig, CODEX_API } from "../config.ts";
+import { getConfig, getTimeoutPolicy, CODEX_API } from "../config.ts";
+import {
+  getResponsesStore,
+  normalizeResponsesInput,
+  prepareHistoryForReplay,
+  tapResponsesStream,
+} from "./responses.ts";
+import { fetchUpstream, primeSSEStream, UpstreamTimeoutError } from "./upstream.ts";
+import { getRequestStats, type RequestOutcome } from "./stats.ts";
+import { withAccountRetry } from "./retry.ts";
+import { createInitialChunk, createFinalChunk, createUsageChunk } from "./translator.ts";
+import {
+  applyStopSequences,
+  createCodexStreamState,
+  flushCodexStreamState,
+  isCodexContentEvent,
+  normalizeStopSequences,
+  parseModelWithEffort,
+  translateCodexStreamEvent,
+  translateFromCodex,
+  translateToCodexRequest,
+} from "./codex_translator.ts";
 
 // 简单的logger封装
 const logger = {
@@ -11,6 +45,24 @@ const logger = {
   error: (msg: string) => log("error", `[codex-handler] ${msg}`),
 };
 
+/**
+ * 提取 Codex 流中的错误事件（response.failed / error）
+ * 限流类错误按 429 处理，其余按 500 处理，均可换账号重试
+ */
+function getCodexStreamError(event: unknown): CodexUpstreamError | null {
+  const data = event as Record<string, unknown> | null;
+  if (data?.type !== "response.failed" && data?.type !== "error") return null;
+
+  const response = data.response as Record<string, unknown> | undefined;
+  const error = (response?.error || data.error || data) as { code?: string; message?: string };
+  const status = /rate_limit|usage_limit/.test(error.code || "") ? 429 : 500;
+  return new CodexUpstreamError(
+    status,
+    `Codex stream error: ${error.message || error.code || "unknown error"}`,
+    JSON.stringify(data)
+  );
+}
+
 /**
  * Codex 上游错误
  */
@@ -34,50 +86,9 @@ export class CodexUpstreamError extends Error {
 }
 
 /**
- * 解析 reasoning effort 后缀
- * 例如: "gpt-5(high)" -> { model: "gpt-5", effort: "high" }
- */
-function parseModelWithEffort(modelId: string): { model: string; effort?: string } {
-  const match = modelId.match(/^(.+?)\((\w+)\)$/);
-  if (match) {
-    return { model: match[1], effort: match[2] };
-  }
-  return { model: modelId };
-}
-
-/**
- * 转换请求为 Codex 格式
+ * 账号轮换时获取的 Codex token 信息
  */
-function translateToCodexRequest(
-  request: ChatCompletionRequest
-): Record<string, unknown> {
-  const { model: rawModel, messages, stream, max_tokens, max_completion_tokens, ...rest } = request;
-  
-  // 解析模型和 reasoning effort
-  const { model, effort } = parseModelWithEffort(rawModel);
-
-  // 优先使用 max_completion_tokens（OpenAI 新版 API），其次使用 max_tokens
-  const effectiveMaxTokens = max_completion_tokens || max_tokens;
-
-  const codexRequest: Record<string, unknown> = {
-    model,
-    messages,
-    stream: stream || false,
-    ...rest,
-  };
-
-  // 设置 max_tokens（Codex API 使用这个参数名）
-  if (effectiveMaxTokens) {
-    codexRequest.max_tokens = effectiveMaxTokens;
-  }
-
-  // 如果有 reasoning effort，添加到请求中
-  if (effort) {
-    codexRequest.reasoning = { effort };
-  }
-
-  return codexRequest;
-}
+type CodexTokenInfo = Awaited<ReturnType<TokenManager["getCodexToken"]>>;
 
 /**
  * Codex代理处理器
@@ -91,10 +102,30 @@ export class CodexProxyHandler {
     this.maxRetries = getConfig().maxRetries || 3;
   }
 
+  /**
+   * 使用 Codex 账号轮换重试
+   * @param label 日志中的请求名称
+   */
+  private withRetry<R>(
+    label: string,
+    signal: AbortSignal | undefined,
+    attempt: (tokenInfo: CodexTokenInfo, retry: number) => Promise<R>
+  ): Promise<R> {
+    return withAccountRetry({
+      label,
+      maxRetries: this.maxRetries,
+      getToken: (rotate) => this.tokenManager.getCodexToken(rotate),
+      markFailed: (accountId) => this.tokenManager.markCodexAccountFailed(accountId),
+      upstreamError: CodexUpstreamError,
+      signal,
+    }, attempt);
+  }
+
   /**
    * 处理聊天完成请求
+   * @param signal 客户端请求的中止信号，断开时取消上游请求
    */
-  async handleChatCompletion(request: ChatCompletionRequest): Promise<Response> {
+  async handleChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
     try {
       // 验证请求
       if (!request.messages || request.messages.length === 0) {
@@ -102,14 +133,24 @@ export class CodexProxyHandler {
       }
 
       if (request.stream) {
-        return await this.handleStreamingRequest(request);
-      } else {
-        return await this.handleNonStreamingRequest(request);
+        // 流式请求的结果由转换流在结束时记录
+        return await this.handleStreamingRequest(request, signal);
       }
+
+      const response = await this.handleNonStreamingRequest(request, signal);
+      getRequestStats().record("codex", "completed");
+      return response;
     } catch (error) {
+      if (signal?.aborted) {
+        getRequestStats().record("codex", "cancelled");
+        return cancelledResponse("codex", request.model);
+      }
+
       logger.error(`Chat completion error: ${error}`);
+      getRequestStats().record("codex", "failed");
       
-      if (error instanceof CodexUpstreamError) {
+      // 超时为 504 UpstreamTimeoutError
+      if (error instanceof CodexUpstreamError || error instanceof UpstreamTimeoutError) {
         return errorResponse(
           error.statusCode,
           error.message,
@@ -122,108 +163,349 @@ export class CodexProxyHandler {
   }
 
   /**
-   * 处理非流式请求
+   * 处理 Responses 请求
+   * Codex 原生支持 Responses 协议，仅展开 previous_response_id 后转发
+   * @param signal 客户端请求的中止信号，断开时取消上游请求
    */
-  private async handleNonStreamingRequest(
-    request: ChatCompletionRequest
-  ): Promise<Response> {
-    let lastError: Error | null = null;
+  async handleResponses(request: ResponsesRequest, signal?: AbortSignal): Promise<Response> {
+    try {
+      const store = getResponsesStore();
+
+      // Codex 以 store=false 调用，历史记录由本地存储展开
+      let history: ResponsesItem[] = [];
+      if (request.previous_response_id) {
+        const stored = store.getHistory(request.previous_response_id);
+        if (!stored) {
+          return errorResponse(
+            404,
+            `Previous response with id '${request.previous_response_id}' not found.`,
+            "invalid_request_error"
+          );
+        }
+        history = stored;
+      }
 
-    for (let retry = 0; retry < this.maxRetries; retry++) {
-      try {
-        // 获取 Codex token
-        const tokenInfo = await this.tokenManager.getCodexToken(retry > 0);
-        
-        logger.info(`Using Codex account: ${tokenInfo.email} (attempt ${retry + 1})`);
+      const inputItems = normalizeResponsesInput(request.input);
+      const { model, effort } = parseModelWithEffort(request.model);
 
-        // 转换请求
-        const codexRequest = translateToCodexRequest(request);
+      const codexRequest: Record<string, unknown> = {
+        ...request,
+        model,
+        input: [...prepareHistoryForReplay(history), ...inputItems],
+        stream: request.stream || false,
+        store: false,
+      };
+      delete codexRequest.previous_response_id;
+
+      if (effort && !request.reasoning) {
+        codexRequest.reasoning = { effort };
+      }
+
+      const upstreamAbort = createLinkedAbortController(signal);
+      return await this.withRetry("Responses request", signal, async (tokenInfo, retry) => {
+        logger.info(`Responses request with Codex account: ${tokenInfo.email} (attempt ${retry + 1})`);
 
-        // 发送请求到 Codex API
         const response = await this.sendRequest(
           `${CODEX_API.baseUrl}${CODEX_API.paths.responses}`,
           codexRequest,
           tokenInfo.accessToken,
-          false,
-          tokenInfo.account.token.account_id
+          !!request.stream,
+          tokenInfo.account.token.account_id,
+          upstreamAbort.signal,
+          tokenInfo.account.proxy_url
         );
 
-        // 解析响应
-        const responseData = await response.json();
-        
-        // 转换为 OpenAI 格式
-        const openaiResponse = this.translateFromCodex(responseData, request.model);
-        
-        return jsonResponse(openaiResponse);
-      } catch (error) {
-        lastError = error as Error;
-        logger.error(`Attempt ${retry + 1} failed: ${error}`);
-
-        // 如果是认证错误，标记账号失败并尝试下一个
-        if (error instanceof CodexUpstreamError && error.isAuthError()) {
-          const tokenInfo = await this.tokenManager.getCodexToken(false).catch(() => null);
-          if (tokenInfo) {
-            this.tokenManager.markCodexAccountFailed(tokenInfo.account.id);
-            logger.info(`Marked Codex account as failed: ${tokenInfo.email}`);
-          }
+        const saveHistory = (result: ResponsesResponse) => {
+          store.save(result.id, [...history, ...inputItems, ...(result.output || [])]);
+        };
+
+        if (!request.stream) {
+          const data = await response.json() as ResponsesResponse;
+          saveHistory(data);
+          data.previous_response_id = request.previous_response_id || null;
+          getRequestStats().record("codex", "completed");
+          return jsonResponse(data);
         }
 
-        // 如果不是可重试的错误，直接抛出
-        if (error instanceof CodexUpstreamError && !error.isRetryable() && !error.isAuthError()) {
-          throw error;
+        if (!response.body) {
+          throw new CodexUpstreamError(500, "No response body for streaming request");
         }
+
+        // 原样转发，流式请求的结果由透传流在结束时记录
+        const passthrough = this.createResponsesPassthrough(response.body, upstreamAbort, request.model, saveHistory);
+        return new Response(passthrough, {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+          },
+        });
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        getRequestStats().record("codex", "cancelled");
+        return cancelledResponse("codex", request.model);
       }
+
+      logger.error(`Responses error: ${error}`);
+      getRequestStats().record("codex", "failed");
+
+      // 超时为 504 UpstreamTimeoutError
+      if (error instanceof CodexUpstreamError || error instanceof UpstreamTimeoutError) {
+        return errorResponse(
+          error.statusCode,
+          error.message,
+          "upstream_error"
+        );
+      }
+
+      return errorResponse(500, `Internal server error: ${error}`);
     }
+  }
 
-    throw lastError || new Error("Request failed after all retries");
+  /**
+   * 处理非流式请求
+   */
+  private async handleNonStreamingRequest(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return await this.withRetry("Request", signal, async (tokenInfo, retry) => {
+      logger.info(`Using Codex account: ${tokenInfo.email} (attempt ${retry + 1})`);
+
+      // 转换请求
+      const codexRequest = translateToCodexRequest(request);
+
+      // 发送请求到 Codex API
+      const response = await this.sendRequest(
+        `${CODEX_API.baseUrl}${CODEX_API.paths.responses}`,
+        codexRequest,
+        tokenInfo.accessToken,
+        false,
+        tokenInfo.account.token.account_id,
+        signal,
+        tokenInfo.account.proxy_url
+      );
+
+      // 解析响应
+      const responseData = await response.json();
+      
+      // 转换为 OpenAI 格式
+      const openaiResponse = translateFromCodex(responseData, request.model);
+
+      // Responses 接口不支持 stop，按 stop 序列截断输出
+      const stops = normalizeStopSequences(request.stop);
+      const message = openaiResponse.choices[0].message;
+      if (stops.length > 0 && typeof message.content === "string") {
+        const { text, stopped } = applyStopSequences(message.content, stops);
+        message.content = text;
+        if (stopped) openaiResponse.choices[0].finish_reason = "stop";
+      }
+      
+      return jsonResponse(openaiResponse);
+    });
   }
 
   /**
    * 处理流式请求
    */
   private async handleStreamingRequest(
-    request: ChatCompletionRequest
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
   ): Promise<Response> {
-    let lastError: Error | null = null;
+    const upstreamAbort = createLinkedAbortController(signal);
+    return await this.withRetry("Streaming request", signal, async (tokenInfo, retry) => {
+      logger.info(`Streaming with Codex account: ${tokenInfo.email} (attempt ${retry + 1})`);
+
+      // 转换请求
+      const codexRequest = translateToCodexRequest(request);
+      const chunkId = `chatcmpl-${generateUUID()}`;
+
+      // 发送流式请求
+      const response = await this.sendRequest(
+        `${CODEX_API.baseUrl}${CODEX_API.paths.responses}`,
+        codexRequest,
+        tokenInfo.accessToken,
+        true,
+        tokenInfo.account.token.account_id,
+        upstreamAbort.signal,
+        tokenInfo.account.proxy_url
+      );
 
-    for (let retry = 0; retry < this.maxRetries; retry++) {
-      try {
-        // 获取 Codex token
-        const tokenInfo = await this.tokenManager.getCodexToken(retry > 0);
-        
-        logger.info(`Streaming with Codex account: ${tokenInfo.email} (attempt ${retry + 1})`);
+      if (!response.body) {
+        throw new CodexUpstreamError(500, "No response body for streaming request");
+      }
 
-        // 转换请求
-        const codexRequest = translateToCodexRequest(request);
+      // 缓冲到首个有效内容，错误或空流在向客户端发送数据前换账号重试
+      const upstreamEvents = await primeSSEStream(
+        response.body,
+        isCodexContentEvent,
+        getCodexStreamError,
+        (getConfig().firstChunkTimeout ?? 60) * 1000
+      );
 
-        // 发送流式请求
-        const response = await this.sendRequest(
-          `${CODEX_API.baseUrl}${CODEX_API.paths.responses}`,
-          codexRequest,
-          tokenInfo.accessToken,
-          true,
-          tokenInfo.account.token.account_id
-        );
+      // 创建转换流
+      const transformedStream = this.createTransformStream(
+        upstreamEvents,
+        upstreamAbort,
+        request.model,
+        chunkId,
+        request.stop,
+        !!request.stream_options?.include_usage
+      );
 
-        // 直接转发流式响应
-        return new Response(response.body, {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            "Connection": "keep-alive",
-          },
-        });
-      } catch (error) {
-        lastError = error as Error;
-        logger.error(`Streaming attempt ${retry + 1} failed: ${error}`);
+      return new Response(transformedStream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+        },
+      });
+    });
+  }
+
+  /**
+   * 创建流转换器（Responses 事件 -> chat.completion.chunk）
+   * @param upstreamAbort 客户端取消读取时中止上游请求
+   */
+  private createTransformStream(
+    upstreamEvents: AsyncIterable<unknown>,
+    upstreamAbort: AbortController,
+    model: string,
+    chunkId: string,
+    stop?: string | string[],
+    includeUsage = false
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    const state = createCodexStreamState(stop);
+    let cancelled = false;
+
+    return new ReadableStream({
+      async start(controller) {
+        const send = (data: unknown) => {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        };
+
+        try {
+          send(createInitialChunk(model, chunkId));
+
+          for await (const event of upstreamEvents) {
+            const translatedChunk = translateCodexStreamEvent(event, model, chunkId, state);
+            if (translatedChunk) {
+              send(translatedChunk);
+            }
+
+            if (state.error) {
+              throw new CodexUpstreamError(
+                500,
+                `Codex stream error: ${state.error.message}`,
+                state.error.body
+              );
+            }
+          }
+
+          const remaining = flushCodexStreamState(model, chunkId, state);
+          if (remaining) {
+            send(remaining);
+          }
 
-        if (error instanceof CodexUpstreamError && !error.isRetryable() && !error.isAuthError()) {
-          throw error;
+          // 发送结束chunk
+          send(createFinalChunk(model, chunkId, state.finishReason));
+          if (includeUsage) {
+            send(createUsageChunk(model, chunkId, state.usage));
+          }
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+          getRequestStats().record("codex", "completed");
+        } catch (error) {
+          if (upstreamAbort.signal.aborted) {
+            logger.info(`Stream cancelled by client: ${model}`);
+            getRequestStats().record("codex", "cancelled");
+            if (!cancelled) controller.close();
+            return;
+          }
+
+          // 流已开始，以错误事件通知客户端而不是直接断开连接
+          logger.error(`Stream transform error: ${error}`);
+          getRequestStats().record("codex", "failed");
+          const status = error instanceof CodexUpstreamError || error instanceof UpstreamTimeoutError
+            ? error.statusCode
+            : 502;
+          const message = error instanceof Error ? error.message : String(error);
+          controller.enqueue(encoder.encode(sseErrorEvent(message, status)));
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
         }
-      }
-    }
+      },
+      cancel() {
+        cancelled = true;
+        upstreamAbort.abort();
+      },
+    });
+  }
+
+  /**
+   * 透传 Codex Responses 事件流，结束、出错或客户端取消时记录请求结果
+   * @param upstreamAbort 客户端取消读取时中止上游请求
+   */
+  private createResponsesPassthrough(
+    body: ReadableStream<Uint8Array>,
+    upstreamAbort: AbortController,
+    model: string,
+    onCompleted: (response: ResponsesResponse) => void
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let completed = false;
+    let finished = false;
+    const reader = tapResponsesStream(body, (response) => {
+      completed = true;
+      onCompleted(response);
+    }).getReader();
+
+    // 每个请求只记录一次结果，返回 false 表示已经记录过（流已结束或已取消）
+    const finish = (outcome: RequestOutcome): boolean => {
+      if (finished) return false;
+      finished = true;
+      getRequestStats().record("codex", outcome);
+      return true;
+    };
+
+    return new ReadableStream({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (!done) {
+            controller.enqueue(value);
+            return;
+          }
+          // 未收到 response.completed（如 response.failed）时计为失败
+          if (finish(completed ? "completed" : "failed")) controller.close();
+        } catch (error) {
+          if (upstreamAbort.signal.aborted) {
+            if (finish("cancelled")) {
+              logger.info(`Responses stream cancelled by client: ${model}`);
+              controller.close();
+            }
+            return;
+          }
 
-    throw lastError || new Error("Streaming request failed after all retries");
+          // 流已开始，以 error 事件通知客户端而不是直接断开连接
+          logger.error(`Responses stream error: ${error}`);
+          if (!finish("failed")) return;
+          const message = error instanceof Error ? error.message : String(error);
+          const event = { type: "error", code: "server_error", message, param: null };
+          controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify(event)}\n\n`));
+          controller.close();
+        }
+      },
+      async cancel(reason) {
+        if (finish("cancelled")) {
+          logger.info(`Responses stream cancelled by client: ${model}`);
+        }
+        upstreamAbort.abort();
+        await reader.cancel(reason).catch(() => {});
+      },
+    });
   }
 
   /**
@@ -234,7 +516,9 @@ export class CodexProxyHandler {
     body: Record<string, unknown>,
     accessToken: string,
     stream: boolean,
-    accountId?: string
+    accountId?: string,
+    signal?: AbortSignal,
+    proxyUrl?: string
   ): Promise<Response> {
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
@@ -252,11 +536,12 @@ export class CodexProxyHandler {
       headers["Chatgpt-Account-Id"] = accountId;
     }
 
-    const response = await fetch(url, {
+    const response = await fetchUpstream(url, {
       method: "POST",
       headers,
       body: JSON.stringify(body),
-    });
+      signal,
+    }, getTimeoutPolicy(String(body.model), stream), proxyUrl);
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -269,81 +554,6 @@ export class CodexProxyHandler {
 
     return response;
   }
-
-  /**
-   * 将 Codex 响应转换为 OpenAI 格式
-   */
-  private translateFromCodex(
-    response: Record<string, unknown>,
-    model: string
-  ): ChatCompletionResponse {
-    const id = (response.id as string) || `chatcmpl-${generateUUID()}`;
-    const created = (response.created as number) || Math.floor(Date.now() / 1000);
-
-    // Codex 响应格式与 OpenAI 类似，但可能需要一些转换
-    const output = response.output as Array<{
-      type: string;
-      content?: Array<{ type: string; text?: string }>;
-      text?: string;
-    }> || [];
-
-    let content = "";
-    for (const item of output) {
-      if (item.type === "message" && item.content) {
-        for (const contentItem of item.content) {
-          if (contentItem.type === "output_text" && contentItem.text) {
-            content += contentItem.text;
-          }
-        }
-      } else if (item.type === "text" && item.text) {
-        content += item.text;
-      }
-    }
-
-    // 如果没有找到内容，尝试其他格式
-    if (!content && response.choices) {
-      const choices = response.choices as Array<{
-        message?: { content?: string };
-        delta?: { content?: string };
-      }>;
-      if (choices[0]?.message?.content) {
-        content = choices[0].message.content;
-      }
-    }
-
-    // 提取 usage 信息
-    const usage = response.usage as {
-      input_tokens?: number;
-      output_tokens?: number;
-      prompt_tokens?: number;
-      completion_tokens?: number;
-      total_tokens?: number;
-    } || {};
-
-    return {
-      id,
-      object: "chat.completion",
-      created,
-      model,
-      choices: [
-        {
-          index: 0,
-          message: {
-            role: "assistant",
-            content,
-          },
-          finish_reason: "stop",
-        },
-      ],
-      usage: {
-        prompt_tokens: usage.input_tokens || usage.prompt_tokens || 0,
-        completion_tokens: usage.output_tokens || usage.completion_tokens || 0,
-        total_tokens: usage.total_tokens || 
-          (usage.input_tokens || usage.prompt_tokens || 0) + 
-          (usage.output_tokens || usage.completion_tokens || 0),
-      },
-    };
-  }
 }
 
 /**
@@ -0,0 +1,578 @@
+import type {
+  ChatCompletionChunk,
+  ChatCompletionChunkChoice,
+  ChatCompletionDelta,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ResponsesContentPart,
+  ResponsesItem,
+  ToolCall,
+  UsageInfo,
+} from "../types.ts";
+import { generateUUID } from "../utils/crypto.ts";
+import { parseModelSuffix } from "../config.ts";
+
+// ==================== 请求转换 ====================
+
+/**
+ * 解析 reasoning effort 后缀
+ * 例如: "gpt-5(high)" -> { model: "gpt-5", effort: "high" }
+ */
+export function parseModelWithEffort(modelId: string): { model: string; effort?: string } {
+  const { model, suffix } = parseModelSuffix(modelId);
+  return { model, effort: suffix };
+}
+
+/**
+ * 推理模型不接受 temperature / top_p 等采样参数
+ */
+function isReasoningModel(model: string): boolean {
+  return /^(gpt-5|o\d)/.test(model);
+}
+
+/**
+ * 规范化 stop 参数为数组
+ */
+export function normalizeStopSequences(stop: string | string[] | undefined): string[] {
+  if (!stop) return [];
+  return (Array.isArray(stop) ? stop : [stop]).filter((s) => s.length > 0);
+}
+
+/**
+ * 按 stop 序列截断文本（Responses 接口不支持 stop，由代理模拟）
+ */
+export function applyStopSequences(
+  text: string,
+  stops: string[]
+): { text: string; stopped: boolean } {
+  let cut = -1;
+  for (const stop of stops) {
+    const index = text.indexOf(stop);
+    if (index !== -1 && (cut === -1 || index < cut)) {
+      cut = index;
+    }
+  }
+  return cut === -1 ? { text, stopped: false } : { text: text.slice(0, cut), stopped: true };
+}
+
+/**
+ * 消息内容转纯文本
+ */
+function contentToText(content: ChatMessage["content"]): string {
+  if (!content) return "";
+  if (typeof content === "string") return content;
+  return content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("");
+}
+
+/**
+ * 消息内容转 Responses 内容部分
+ */
+function contentToResponsesParts(
+  content: ChatMessage["content"],
+  role: "user" | "assistant"
+): ResponsesContentPart[] {
+  const textType = role === "assistant" ? "output_text" : "input_text";
+  if (!content) return [];
+  if (typeof content === "string") {
+    return content ? [{ type: textType, text: content }] : [];
+  }
+
+  const parts: ResponsesContentPart[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      parts.push({ type: textType, text: part.text });
+    } else if (part.type === "image_url" && part.image_url?.url && role === "user") {
+      parts.push({
+        type: "input_image",
+        image_url: part.image_url.url,
+        detail: part.image_url.detail || "auto",
+      });
+    } else if (part.type === "file" && part.file?.file_data && role === "user") {
+      parts.push({
+        type: "input_file",
+        file_data: part.file.file_data,
+        filename: part.file.filename,
+      });
+    }
+  }
+  return parts;
+}
+
+/**
+ * OpenAI 消息列表转 Responses 输入项
+ * system 消息合并为 instructions，其余消息按顺序转换为 input 项
+ */
+function translateMessagesToInput(
+  messages: ChatMessage[]
+): { instructions?: string; input: ResponsesItem[] } {
+  const instructions: string[] = [];
+  const input: ResponsesItem[] = [];
+
+  for (const message of messages) {
+    switch (message.role) {
+      case "system":
+      case "developer": {
+        const text = contentToText(message.content);
+        if (text) instructions.push(text);
+        break;
+      }
+
+      case "user": {
+        const content = contentToResponsesParts(message.content, "user");
+        if (content.length > 0) {
+          input.push({ type: "message", role: "user", content });
+        }
+        break;
+      }
+
+      case "assistant": {
+        const content = contentToResponsesParts(message.content, "assistant");
+        if (content.length > 0) {
+          input.push({ type: "message", role: "assistant", content });
+        }
+
+        for (const toolCall of message.tool_calls || []) {
+          input.push({
+            type: "function_call",
+            call_id: toolCall.id,
+            name: toolCall.function.name,
+            arguments: toolCall.function.arguments || "{}",
+          });
+        }
+
+        // 兼容旧版 function_call
+        if (message.function_call) {
+          input.push({
+            type: "function_call",
+            call_id: `call_${message.function_call.name}`,
+            name: message.function_call.name,
+            arguments: message.function_call.arguments || "{}",
+          });
+        }
+        break;
+      }
+
+      case "tool":
+        input.push({
+          type: "function_call_output",
+          call_id: message.tool_call_id,
+          output: contentToText(message.content),
+        });
+        break;
+
+      case "function":
+        input.push({
+          type: "function_call_output",
+          call_id: `call_${message.name}`,
+          output: contentToText(message.content),
+        });
+        break;
+    }
+  }
+
+  return {
+    instructions: instructions.length > 0 ? instructions.join("\n\n") : undefined,
+    input,
+  };
+}
+
+/**
+ * 估算 Codex 请求的输入 token 数
+ * Codex 上游没有 token 统计接口，按转换后内容的字符数粗略估算（约 4 字符 / token）
+ */
+export function estimateCodexTokens(request: ChatCompletionRequest): number {
+  const { instructions, input } = translateMessagesToInput(request.messages);
+  const text = (instructions || "") + JSON.stringify(input) + (request.tools ? JSON.stringify(request.tools) : "");
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * OpenAI 聊天完成请求转 Codex Responses 请求
+ */
+export function translateToCodexRequest(
+  request: ChatCompletionRequest
+): Record<string, unknown> {
+  // 解析模型和 reasoning effort
+  const { model, effort } = parseModelWithEffort(request.model);
+  const { instructions, input } = translateMessagesToInput(request.messages);
+
+  const codexRequest: Record<string, unknown> = {
+    model,
+    input,
+    stream: request.stream || false,
+    store: false,
+  };
+
+  if (instructions) {
+    codexRequest.instructions = instructions;
+  }
+
+  // 优先使用 max_completion_tokens（OpenAI 新版 API），其次使用 max_tokens
+  const effectiveMaxTokens = request.max_completion_tokens || request.max_tokens;
+  if (effectiveMaxTokens) {
+    codexRequest.max_output_tokens = effectiveMaxTokens;
+  }
+
+  if (!isReasoningModel(model)) {
+    if (request.temperature !== undefined) codexRequest.temperature = request.temperature;
+    if (request.top_p !== undefined) codexRequest.top_p = request.top_p;
+  }
+
+  if (request.user) {
+    codexRequest.user = request.user;
+  }
+
+  // 如果有 reasoning effort，添加到请求中（同时请求推理摘要）
+  // 模型后缀优先，其次是 reasoning_effort 参数
+  const reasoningEffort = effort || request.reasoning_effort;
+  if (reasoningEffort) {
+    codexRequest.reasoning = { effort: reasoningEffort, summary: "auto" };
+  }
+
+  // 工具定义
+  if (request.tools && request.tools.length > 0) {
+    codexRequest.tools = request.tools.map((tool) => ({
+      type: "function",
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters || { type: "object", properties: {} },
+    }));
+  }
+
+  if (typeof request.tool_choice === "string") {
+    codexRequest.tool_choice = request.tool_choice;
+  } else if (request.tool_choice?.type === "function") {
+    codexRequest.tool_choice = { type: "function", name: request.tool_choice.function.name };
+  }
+
+  // 响应格式
+  const responseFormat = request.response_format;
+  if (responseFormat?.type === "json_object") {
+    codexRequest.text = { format: { type: "json_object" } };
+  } else if (responseFormat?.type === "json_schema" && responseFormat.json_schema) {
+    const { name, description, schema, strict } = responseFormat.json_schema;
+    codexRequest.text = {
+      format: {
+        type: "json_schema",
+        name,
+        description,
+        schema: schema || {},
+        strict: strict ?? false,
+      },
+    };
+  }
+
+  return codexRequest;
+}
+
+// ==================== 响应转换 ====================
+
+/**
+ * Codex 流式转换状态
+ * Responses 事件按输出项ID区分，转换时需要为每个函数调用分配稳定的 index
+ */
+export interface CodexStreamState {
+  toolCallIndexes: Map<string, number>;
+  nextToolCallIndex: number;
+  reasoningParts: number;
+  finishReason: ChatCompletionChunkChoice["finish_reason"];
+  usage?: UsageInfo;
+  error?: { message: string; body: string };
+  stopSequences: string[];
+  pendingText: string;
+  stopped: boolean;
+}
+
+/**
+ * 创建流式转换状态
+ */
+export function createCodexStreamState(stop?: string | string[]): CodexStreamState {
+  return {
+    toolCallIndexes: new Map(),
+    nextToolCallIndex: 0,
+    reasoningParts: 0,
+    finishReason: "stop",
+    stopSequences: normalizeStopSequences(stop),
+    pendingText: "",
+    stopped: false,
+  };
+}
+
+/**
+ * Codex usage 转 OpenAI usage
+ */
+export function translateCodexUsage(usage: Record<string, unknown> | undefined): UsageInfo | undefined {
+  if (!usage) return undefined;
+
+  const promptTokens = (usage.input_tokens as number) || (usage.prompt_tokens as number) || 0;
+  const completionTokens = (usage.output_tokens as number) || (usage.completion_tokens as number) || 0;
+
+  const result: UsageInfo = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: (usage.total_tokens as number) || promptTokens + completionTokens,
+  };
+
+  const inputDetails = usage.input_tokens_details as { cached_tokens?: number } | undefined;
+  if (inputDetails?.cached_tokens !== undefined) {
+    result.prompt_tokens_details = { cached_tokens: inputDetails.cached_tokens };
+  }
+
+  const outputDetails = usage.output_tokens_details as { reasoning_tokens?: number } | undefined;
+  if (outputDetails?.reasoning_tokens !== undefined) {
+    result.completion_tokens_details = { reasoning_tokens: outputDetails.reasoning_tokens };
+  }
+
+  return result;
+}
+
+/**
+ * 根据 Responses 状态推断结束原因
+ */
+function mapCodexFinishReason(
+  response: Record<string, unknown> | undefined,
+  hasToolCalls: boolean,
+  incomplete: boolean
+): ChatCompletionChunkChoice["finish_reason"] {
+  const details = response?.incomplete_details as { reason?: string } | null | undefined;
+  if (incomplete || response?.status === "incomplete" || details?.reason) {
+    return details?.reason === "content_filter" ? "content_filter" : "length";
+  }
+  return hasToolCalls ? "tool_calls" : "stop";
+}
+
+/**
+ * Codex Responses 非流式响应转 OpenAI 格式
+ */
+export function translateFromCodex(
+  response: Record<string, unknown>,
+  model: string
+): ChatCompletionResponse {
+  const id = (response.id as string) || `chatcmpl-${generateUUID()}`;
+  const created = (response.created_at as number) || (response.created as number) ||
+    Math.floor(Date.now() / 1000);
+
+  const output = (response.output as ResponsesItem[]) || [];
+
+  let content = "";
+  const reasoningParts: string[] = [];
+  const toolCalls: ToolCall[] = [];
+
+  for (const item of output) {
+    switch (item.type) {
+      case "message":
+        if (Array.isArray(item.content)) {
+          for (const part of item.content) {
+            if (part.type === "output_text" && part.text) {
+              content += part.text;
+            }
+          }
+        } else if (typeof item.content === "string") {
+          content += item.content;
+        }
+        break;
+
+      case "reasoning":
+        for (const summary of item.summary || []) {
+          if (summary.text) reasoningParts.push(summary.text);
+        }
+        break;
+
+      case "function_call":
+        toolCalls.push({
+          id: item.call_id || item.id || `call_${generateUUID()}`,
+          type: "function",
+          function: {
+            name: item.name || "",
+            arguments: item.arguments || "{}",
+          },
+        });
+        break;
+    }
+  }
+
+  const message: ChatMessage = {
+    role: "assistant",
+    content: content || (toolCalls.length > 0 ? null : ""),
+  };
+  if (reasoningParts.length > 0) {
+    message.reasoning_content = reasoningParts.join("\n\n");
+  }
+  if (toolCalls.length > 0) {
+    message.tool_calls = toolCalls;
+  }
+
+  return {
+    id,
+    object: "chat.completion",
+    created,
+    model,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: mapCodexFinishReason(response, toolCalls.length > 0, false),
+      },
+    ],
+    usage: translateCodexUsage(response.usage as Record<string, unknown> | undefined) || {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+    },
+  };
+}
+
+/**
+ * 构建增量 chunk
+ */
+function buildChunk(model: string, chunkId: string, delta: ChatCompletionDelta): ChatCompletionChunk {
+  return {
+    id: chunkId,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        delta,
+        finish_reason: null,
+      },
+    ],
+  };
+}
+
+/**
+ * Codex Responses 流式事件转 OpenAI 流式 chunk
+ * 结束原因、usage 和错误记录在 state 中，由调用方统一处理
+ */
+export function translateCodexStreamEvent(
+  event: unknown,
+  model: string,
+  chunkId: string,
+  state: CodexStreamState
+): ChatCompletionChunk | null {
+  const data = event as Record<string, unknown>;
+  const type = data.type as string | undefined;
+
+  switch (type) {
+    case "response.output_text.delta": {
+      const text = data.delta as string;
+      if (!text || state.stopped) return null;
+      if (state.stopSequences.length === 0) {
+        return buildChunk(model, chunkId, { content: text });
+      }
+
+      // 模拟 stop：命中后截断，并保留可能构成 stop 前缀的尾部文本
+      state.pendingText += text;
+      const { text: kept, stopped } = applyStopSequences(state.pendingText, state.stopSequences);
+      let content = kept;
+      if (stopped) {
+        state.stopped = true;
+        state.pendingText = "";
+      } else {
+        const holdLength = Math.max(...state.stopSequences.map((s) => s.length)) - 1;
+        content = kept.slice(0, Math.max(0, kept.length - holdLength));
+        state.pendingText = kept.slice(content.length);
+      }
+      return content ? buildChunk(model, chunkId, { content }) : null;
+    }
+
+    case "response.reasoning_summary_part.added": {
+      // 多段推理摘要之间插入空行分隔
+      state.reasoningParts++;
+      return state.reasoningParts > 1
+        ? buildChunk(model, chunkId, { reasoning_content: "\n\n" })
+        : null;
+    }
+
+    case "response.reasoning_summary_text.delta":
+    case "response.reasoning_text.delta": {
+      const text = data.delta as string;
+      return text ? buildChunk(model, chunkId, { reasoning_content: text }) : null;
+    }
+
+    case "response.output_item.added": {
+      const item = data.item as Record<string, unknown> | undefined;
+      if (item?.type !== "function_call") return null;
+
+      // 首个 chunk 发送 id 和 name，后续只发送参数增量
+      const index = state.nextToolCallIndex++;
+      state.toolCallIndexes.set(item.id as string, index);
+      return buildChunk(model, chunkId, {
+        tool_calls: [{
+          index,
+          id: (item.call_id as string) || (item.id as string),
+          type: "function",
+          function: {
+            name: item.name as string,
+            arguments: "",
+          },
+        }],
+      });
+    }
+
+    case "response.function_call_arguments.delta": {
+      const index = state.toolCallIndexes.get(data.item_id as string);
+      const args = data.delta as string;
+      if (index === undefined || !args) return null;
+      return buildChunk(model, chunkId, {
+        tool_calls: [{ index, function: { arguments: args } }],
+      });
+    }
+
+    case "response.completed":
+    case "response.incomplete": {
+      const response = data.response as Record<string, unknown> | undefined;
+      state.finishReason = state.stopped ? "stop" : mapCodexFinishReason(
+        response,
+        state.toolCallIndexes.size > 0,
+        type === "response.incomplete"
+      );
+
+      state.usage = translateCodexUsage(response?.usage as Record<string, unknown> | undefined);
+      return null;
+    }
+
+    case "response.failed":
+    case "error": {
+      const response = data.response as Record<string, unknown> | undefined;
+      const error = (response?.error || data.error || data) as { code?: string; message?: string };
+      state.error = {
+        message: error.message || error.code || "unknown error",
+        body: JSON.stringify(data),
+      };
+      return null;
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * 判断 Codex 流式事件是否为有效内容（用于首个有效内容前的故障转移）
+ * response.created / response.in_progress 等状态事件不算
+ */
+export function isCodexContentEvent(event: unknown): boolean {
+  const type = (event as { type?: string } | null)?.type;
+  return !!type && type !== "response.created" && type !== "response.in_progress" &&
+    type !== "response.failed" && type !== "error";
+}
+
+/**
+ * 输出 stop 模拟时缓存的剩余文本
+ */
+export function flushCodexStreamState(
+  model: string,
+  chunkId: string,
+  state: CodexStreamState
+): ChatCompletionChunk | null {
+  if (!state.pendingText || state.stopped) return null;
+  const content = state.pendingText;
+  state.pendingText = "";
+  return buildChunk(model, chunkId, { content });
+}
\ No newline at end of file
@@ -0,0 +1,283 @@
+import { assert, assertEquals } from "@std/assert";
+import {
+  applyStopSequences,
+  createCodexStreamState,
+  type CodexStreamState,
+  estimateCodexTokens,
+  flushCodexStreamState,
+  isCodexContentEvent,
+  translateCodexStreamEvent,
+  translateCodexUsage,
+  translateFromCodex,
+  translateToCodexRequest,
+} from "./codex_translator.ts";
+
+/**
+ * 依次转换 Codex 流式事件，返回非空 chunk 的 delta
+ */
+function translateEvents(events: unknown[], state: CodexStreamState = createCodexStreamState()) {
+  return events
+    .map((event) => translateCodexStreamEvent(event, "gpt-5", "chatcmpl-1", state))
+    .filter((chunk) => chunk !== null)
+    .map((chunk) => chunk!.choices[0].delta);
+}
+
+Deno.test("translateCodexStreamEvent - maps text, reasoning and tool call events to deltas", () => {
+  const deltas = translateEvents([
+    { type: "response.created", response: { id: "resp_1" } },
+    { type: "response.reasoning_summary_part.added", summary_index: 0 },
+    { type: "response.reasoning_summary_text.delta", delta: "First." },
+    { type: "response.reasoning_summary_part.added", summary_index: 1 },
+    { type: "response.reasoning_summary_text.delta", delta: "Second." },
+    { type: "response.output_text.delta", delta: "Hello" },
+    { type: "response.output_item.added", item: { type: "function_call", id: "fc_1", call_id: "call_1", name: "a" } },
+    { type: "response.output_item.added", item: { type: "function_call", id: "fc_2", call_id: "call_2", name: "b" } },
+    { type: "response.function_call_arguments.delta", item_id: "fc_2", delta: "{}" },
+    { type: "response.function_call_arguments.delta", item_id: "fc_1", delta: '{"x":1}' },
+    { type: "response.function_call_arguments.delta", item_id: "fc_unknown", delta: "{}" },
+  ]);
+
+  assertEquals(deltas, [
+    { reasoning_content: "First." },
+    { reasoning_content: "\n\n" },
+    { reasoning_content: "Second." },
+    { content: "Hello" },
+    { tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "a", arguments: "" } }] },
+    { tool_calls: [{ index: 1, id: "call_2", type: "function", function: { name: "b", arguments: "" } }] },
+    { tool_calls: [{ index: 1, function: { arguments: "{}" } }] },
+    { tool_calls: [{ index: 0, function: { arguments: '{"x":1}' } }] },
+  ]);
+});
+
+Deno.test("translateCodexStreamEvent - records finish reason and usage from terminal events", () => {
+  const usage = { input_tokens: 10, output_tokens: 5, total_tokens: 15 };
+  const cases = [
+    { name: "completed", events: [{ type: "response.completed", response: { usage } }], expected: "stop" },
+    {
+      name: "completed with tool calls",
+      events: [
+        { type: "response.output_item.added", item: { type: "function_call", id: "fc_1", name: "a" } },
+        { type: "response.completed", response: { usage } },
+      ],
+      expected: "tool_calls",
+    },
+    {
+      name: "max output tokens",
+      events: [{ type: "response.incomplete", response: { incomplete_details: { reason: "max_output_tokens" }, usage } }],
+      expected: "length",
+    },
+    {
+      name: "content filter",
+      events: [{ type: "response.incomplete", response: { incomplete_details: { reason: "content_filter" }, usage } }],
+      expected: "content_filter",
+    },
+  ];
+
+  for (const { name, events, expected } of cases) {
+    const state = createCodexStreamState();
+    translateEvents(events, state);
+    assertEquals(state.finishReason, expected, name);
+    assertEquals(state.usage, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }, name);
+  }
+});
+
+Deno.test("translateCodexStreamEvent - records failures in the state", () => {
+  const cases = [
+    { event: { type: "response.failed", response: { error: { code: "server_error", message: "boom" } } }, expected: "boom" },
+    { event: { type: "error", code: "rate_limit_exceeded" }, expected: "rate_limit_exceeded" },
+  ];
+
+  for (const { event, expected } of cases) {
+    const state = createCodexStreamState();
+    assertEquals(translateEvents([event], state), []);
+    assertEquals(state.error, { message: expected, body: JSON.stringify(event) }, event.type);
+  }
+});
+
+Deno.test("translateCodexUsage - maps token counts and details", () => {
+  assertEquals(translateCodexUsage(undefined), undefined);
+  assertEquals(
+    translateCodexUsage({
+      input_tokens: 10,
+      output_tokens: 5,
+      input_tokens_details: { cached_tokens: 4 },
+      output_tokens_details: { reasoning_tokens: 2 },
+    }),
+    {
+      prompt_tokens: 10,
+      completion_tokens: 5,
+      total_tokens: 15,
+      prompt_tokens_details: { cached_tokens: 4 },
+      completion_tokens_details: { reasoning_tokens: 2 },
+    }
+  );
+});
+Deno.test("translateToCodexRequest - translates messages into instructions and input items", () => {
+  const request = translateToCodexRequest({
+    model: "gpt-5(high)",
+    messages: [
+      { role: "system", content: "Be brief." },
+      { role: "developer", content: [{ type: "text", text: "Use tools." }] },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "Weather?" },
+          { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+        ],
+      },
+      {
+        role: "assistant",
+        content: "Checking.",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    ],
+    max_completion_tokens: 100,
+    temperature: 0.5,
+    tools: [{ type: "function", function: { name: "get_weather" } }],
+    tool_choice: { type: "function", function: { name: "get_weather" } },
+    response_format: { type: "json_object" },
+  });
+
+  assertEquals(request, {
+    model: "gpt-5",
+    instructions: "Be brief.\n\nUse tools.",
+    input: [
+      {
+        type: "message",
+        role: "user",
+        content: [
+          { type: "input_text", text: "Weather?" },
+          { type: "input_image", image_url: "https://example.com/a.png", detail: "auto" },
+        ],
+      },
+      { type: "message", role: "assistant", content: [{ type: "output_text", text: "Checking." }] },
+      { type: "function_call", call_id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' },
+      { type: "function_call_output", call_id: "call_1", output: "Sunny" },
+    ],
+    stream: false,
+    store: false,
+    max_output_tokens: 100,
+    reasoning: { effort: "high", summary: "auto" },
+    tools: [{ type: "function", name: "get_weather", parameters: { type: "object", properties: {} } }],
+    tool_choice: { type: "function", name: "get_weather" },
+    text: { format: { type: "json_object" } },
+  });
+});
+
+Deno.test("translateToCodexRequest - only non-reasoning models receive sampling parameters", () => {
+  const cases = [
+    { model: "gpt-5", expected: undefined },
+    { model: "o3", expected: undefined },
+    { model: "gpt-4.1", expected: 0.5 },
+  ];
+
+  for (const { model, expected } of cases) {
+    const request = translateToCodexRequest({ model, messages: [{ role: "user", content: "hi" }], temperature: 0.5 });
+    assertEquals(request.temperature, expected, model);
+  }
+});
+
+Deno.test("applyStopSequences - cuts at the earliest stop sequence", () => {
+  const cases = [
+    { text: "Hello world", stops: [], expected: { text: "Hello world", stopped: false } },
+    { text: "Hello world", stops: ["world", "lo"], expected: { text: "Hel", stopped: true } },
+    { text: "Hello world", stops: ["xyz"], expected: { text: "Hello world", stopped: false } },
+  ];
+
+  for (const { text, stops, expected } of cases) {
+    assertEquals(applyStopSequences(text, stops), expected, stops.join(","));
+  }
+});
+
+Deno.test("translateCodexStreamEvent - emulates stop sequences across text deltas", () => {
+  const cases = [
+    { name: "stop split across deltas", deltas: ["Hello EN", "D more"], expected: "Hello ", stopped: true },
+    { name: "partial prefix is flushed", deltas: ["Hello E", "N"], expected: "Hello EN", stopped: false },
+  ];
+
+  for (const { name, deltas, expected, stopped } of cases) {
+    const state = createCodexStreamState("END");
+    const chunks = translateEvents(deltas.map((delta) => ({ type: "response.output_text.delta", delta })), state);
+    const flushed = flushCodexStreamState("gpt-5", "chatcmpl-1", state);
+    if (flushed) chunks.push(flushed.choices[0].delta);
+
+    assertEquals(chunks.map((delta) => delta.content).join(""), expected, name);
+    assertEquals(state.stopped, stopped, name);
+  }
+
+  const state = createCodexStreamState(["END"]);
+  translateEvents([
+    { type: "response.output_text.delta", delta: "Hi END" },
+    { type: "response.incomplete", response: { incomplete_details: { reason: "max_output_tokens" } } },
+  ], state);
+  assertEquals(state.finishReason, "stop");
+});
+Deno.test("translateFromCodex - returns text, reasoning and tool calls", () => {
+  const response = translateFromCodex({
+    id: "resp_1",
+    created_at: 1,
+    status: "completed",
+    output: [
+      { type: "reasoning", summary: [{ type: "summary_text", text: "First." }, { type: "summary_text", text: "Second." }] },
+      { type: "message", role: "assistant", content: [{ type: "output_text", text: "Checking." }] },
+      { type: "function_call", id: "fc_1", call_id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' },
+    ],
+    usage: { input_tokens: 10, output_tokens: 5 },
+  }, "gpt-5");
+
+  assertEquals(response.choices[0], {
+    index: 0,
+    message: {
+      role: "assistant",
+      content: "Checking.",
+      reasoning_content: "First.\n\nSecond.",
+      tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } }],
+    },
+    finish_reason: "tool_calls",
+  });
+  assertEquals(response.usage, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+});
+
+Deno.test("translateFromCodex - maps response status to finish_reason", () => {
+  const message = { type: "message", role: "assistant", content: [{ type: "output_text", text: "Hi" }] };
+  const cases = [
+    { name: "completed", response: { status: "completed" }, expected: "stop" },
+    { name: "max output tokens", response: { status: "incomplete", incomplete_details: { reason: "max_output_tokens" } }, expected: "length" },
+    { name: "content filter", response: { status: "incomplete", incomplete_details: { reason: "content_filter" } }, expected: "content_filter" },
+  ];
+
+  for (const { name, response, expected } of cases) {
+    const result = translateFromCodex({ ...response, output: [message] }, "gpt-5");
+    assertEquals(result.choices[0].finish_reason, expected, name);
+    assertEquals(result.choices[0].message.content, "Hi", name);
+  }
+});
+Deno.test("estimateCodexTokens - grows with messages and tools", () => {
+  const base = { model: "gpt-5", messages: [{ role: "user" as const, content: "hi" }] };
+  const small = estimateCodexTokens(base);
+  const longer = estimateCodexTokens({ ...base, messages: [{ role: "user", content: "hi ".repeat(400) }] });
+  const withTools = estimateCodexTokens({
+    ...base,
+    tools: [{ type: "function", function: { name: "lookup", parameters: { type: "object" } } }],
+  });
+
+  assert(small > 0);
+  assert(longer >= small + 300, `${longer}`);
+  assert(withTools > small, `${withTools}`);
+});
+Deno.test("isCodexContentEvent - status and error events do not count as content", () => {
+  const cases = [
+    { type: "response.created", expected: false },
+    { type: "response.in_progress", expected: false },
+    { type: "response.failed", expected: false },
+    { type: "error", expected: false },
+    { type: "response.output_text.delta", expected: true },
+    { type: "response.output_item.added", expected: true },
+  ];
+
+  for (const { type, expected } of cases) {
+    assertEquals(isCodexContentEvent({ type }), expected, type);
+  }
+  assertEquals(isCodexContentEvent(null), false);
+});
\ No newline at end of file
@@ -0,0 +1,264 @@
+import type {
+  ChatCompletionChoice,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  CompletionChoice,
+  CompletionRequest,
+  CompletionResponse,
+  UsageInfo,
+} from "../types.ts";
+import { InvalidRequestError, readSSEStream, log } from "../utils/http.ts";
+import { generateUUID } from "../utils/crypto.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[completions] ${msg}`),
+  error: (msg: string) => log("error", `[completions] ${msg}`),
+};
+
+/**
+ * 带 suffix 的填充补全（FIM）指令模板
+ * 聊天模型没有原生 FIM 能力，通过系统指令要求只输出中间部分
+ */
+const FIM_INSTRUCTIONS = [
+  "You are a fill-in-the-middle completion engine.",
+  "The user message contains a <prefix> and a <suffix>.",
+  "Reply with only the text that belongs between them, exactly as it should be inserted.",
+  "Do not repeat the prefix or the suffix, do not explain, and do not wrap the output in code fences.",
+].join(" ");
+
+/**
+ * 生成补全ID
+ */
+export function generateCompletionId(): string {
+  return `cmpl-${generateUUID().replace(/-/g, "")}`;
+}
+
+/**
+ * 规范化 prompt 为字符串列表
+ * 聊天模型无法接收 token ID，数组形式的 token 输入直接拒绝
+ */
+export function normalizePrompts(prompt: CompletionRequest["prompt"] | undefined): string[] {
+  if (typeof prompt === "string") {
+    return [prompt];
+  }
+
+  if (Array.isArray(prompt) && prompt.length > 0 && prompt.every((p) => typeof p === "string")) {
+    return prompt as string[];
+  }
+
+  if (Array.isArray(prompt) && prompt.length > 0) {
+    throw new InvalidRequestError("Token ID prompts are not supported; send the prompt as text", "prompt");
+  }
+
+  throw new InvalidRequestError("prompt is required", "prompt");
+}
+
+/**
+ * 文本补全请求转聊天完成请求
+ * prompt 作为用户消息发送；带 suffix 时使用 FIM 指令模板
+ */
+export function translateCompletionToChat(request: CompletionRequest, prompt: string): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+
+  if (request.suffix) {
+    messages.push({ role: "system", content: FIM_INSTRUCTIONS });
+    messages.push({
+      role: "user",
+      content: `<prefix>${prompt}</prefix>\n<suffix>${request.suffix}</suffix>`,
+    });
+  } else {
+    messages.push({ role: "user", content: prompt });
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages,
+    stream: request.stream,
+    max_tokens: request.max_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    n: request.n,
+    stop: request.stop,
+    presence_penalty: request.presence_penalty,
+    frequency_penalty: request.frequency_penalty,
+    seed: request.seed,
+    user: request.user,
+  };
+
+  if (request.stream) {
+    chatRequest.stream_options = request.stream_options;
+  }
+
+  // 旧版 logprobs 为数量，按聊天完成的 logprobs 参数交由不支持参数策略处理
+  if (request.logprobs !== undefined && request.logprobs !== null) {
+    chatRequest.logprobs = true;
+    chatRequest.top_logprobs = request.logprobs;
+  }
+
+  if (request.best_of !== undefined && request.best_of > (request.n || 1)) {
+    logger.debug(`Ignoring best_of=${request.best_of}`);
+  }
+
+  return chatRequest;
+}
+
+/**
+ * 映射聊天完成原因到文本补全原因
+ */
+function mapCompletionFinishReason(
+  reason: ChatCompletionChoice["finish_reason"] | string | null | undefined
+): CompletionChoice["finish_reason"] {
+  switch (reason) {
+    case "length":
+      return "length";
+    case "content_filter":
+      return "content_filter";
+    case null:
+    case undefined:
+      return null;
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * 合并多个 usage
+ */
+function sumUsage(usages: Array<UsageInfo | undefined>): UsageInfo | undefined {
+  const present = usages.filter((u): u is UsageInfo => !!u);
+  if (present.length === 0) return undefined;
+
+  return {
+    prompt_tokens: present.reduce((sum, u) => sum + u.prompt_tokens, 0),
+    completion_tokens: present.reduce((sum, u) => sum + u.completion_tokens, 0),
+    total_tokens: present.reduce((sum, u) => sum + u.total_tokens, 0),
+  };
+}
+
+/**
+ * 聊天完成响应转文本补全响应（非流式）
+ * 每个 prompt 对应一个聊天响应，choice 按 prompt 顺序编号
+ */
+export function translateChatToCompletion(
+  chatResponses: ChatCompletionResponse[],
+  request: CompletionRequest,
+  prompts: string[],
+  completionId: string
+): CompletionResponse {
+  const choices: CompletionChoice[] = [];
+
+  chatResponses.forEach((chatResponse, promptIndex) => {
+    for (const choice of chatResponse.choices || []) {
+      const content = typeof choice.message?.content === "string" ? choice.message.content : "";
+      choices.push({
+        text: request.echo ? prompts[promptIndex] + content : content,
+        index: choices.length,
+        logprobs: null,
+        finish_reason: mapCompletionFinishReason(choice.finish_reason),
+      });
+    }
+  });
+
+  return {
+    id: completionId,
+    object: "text_completion",
+    created: chatResponses[0]?.created || Math.floor(Date.now() / 1000),
+    model: chatResponses[0]?.model || request.model,
+    choices,
+    usage: sumUsage(chatResponses.map((r) => r.usage)),
+  };
+}
+
+/**
+ * 将 OpenAI chat.completion.chunk 流转换为 text_completion 流
+ */
+export function createCompletionsStream(
+  chatResponse: Response,
+  request: CompletionRequest,
+  prompt: string,
+  completionId: string
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const created = Math.floor(Date.now() / 1000);
+  // 客户端取消读取时取消内部聊天响应（进而中止上游请求）
+  const upstreamAbort = new AbortController();
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (data: unknown) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const buildChunk = (
+        text: string,
+        finishReason: CompletionChoice["finish_reason"],
+        index = 0
+      ): CompletionResponse => ({
+        id: completionId,
+        object: "text_completion",
+        created,
+        model: request.model,
+        choices: [{ text, index, logprobs: null, finish_reason: finishReason }],
+      });
+
+      if (request.echo && prompt) {
+        send(buildChunk(prompt, null));
+      }
+
+      try {
+        for await (const data of readSSEStream(chatResponse, upstreamAbort.signal)) {
+          let chunk: Record<string, unknown>;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            logger.debug(`Skipping unparsable chunk: ${data}`);
+            continue;
+          }
+
+          if (chunk.error) {
+            send({ error: chunk.error });
+            break;
+          }
+
+          const choices = chunk.choices as Array<{
+            index?: number;
+            delta?: { content?: string | null };
+            finish_reason?: string | null;
+          }> | undefined;
+
+          // stream_options.include_usage 的用量chunk
+          if (chunk.usage && (!choices || choices.length === 0)) {
+            send({ ...buildChunk("", null), choices: [], usage: chunk.usage });
+            continue;
+          }
+
+          for (const choice of choices || []) {
+            const text = choice.delta?.content || "";
+            const finishReason = mapCompletionFinishReason(choice.finish_reason);
+            if (text || finishReason) {
+              send(buildChunk(text, finishReason, choice.index || 0));
+            }
+          }
+        }
+
+        // 客户端已取消读取，不再发送结束事件
+        if (upstreamAbort.signal.aborted) return;
+
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        if (upstreamAbort.signal.aborted) return;
+
+        logger.error(`Completions stream transform error: ${error}`);
+        send({ error: { message: String(error), type: "server_error" } });
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      upstreamAbort.abort(reason);
+    },
+  });
+}
\ No newline at end of file
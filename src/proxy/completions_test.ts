@@ -0,0 +1,113 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import { loadConfig } from "../config.ts";
+import type { ChatCompletionResponse, CompletionRequest, CompletionResponse } from "../types.ts";
+import { InvalidRequestError } from "../utils/http.ts";
+import {
+  createCompletionsStream,
+  normalizePrompts,
+  translateChatToCompletion,
+  translateCompletionToChat,
+} from "./completions.ts";
+
+await loadConfig();
+
+/**
+ * 由 chat.completion.chunk 列表构造 SSE 响应
+ */
+function chunkResponse(chunks: unknown[]): Response {
+  const body = chunks.map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+Deno.test("normalizePrompts - accepts text prompts", () => {
+  const cases = [
+    { prompt: "def f():", expected: ["def f():"] },
+    { prompt: "", expected: [""] },
+    { prompt: ["a", "b"], expected: ["a", "b"] },
+  ];
+
+  for (const { prompt, expected } of cases) {
+    assertEquals(normalizePrompts(prompt), expected, JSON.stringify(prompt));
+  }
+});
+
+Deno.test("normalizePrompts - rejects missing and token ID prompts", () => {
+  const cases = [
+    { prompt: undefined, message: "prompt is required" },
+    { prompt: [], message: "prompt is required" },
+    { prompt: [1, 2, 3], message: "Token ID prompts are not supported" },
+    { prompt: [[1, 2], [3]], message: "Token ID prompts are not supported" },
+  ];
+
+  for (const { prompt, message } of cases) {
+    assertThrows(
+      () => normalizePrompts(prompt as CompletionRequest["prompt"]),
+      InvalidRequestError,
+      message,
+      JSON.stringify(prompt)
+    );
+  }
+});
+
+Deno.test("translateCompletionToChat - sends the prompt as a user message or FIM template", () => {
+  const plain = translateCompletionToChat({ model: "gemini-2.5-flash", prompt: "def f():", max_tokens: 16, stop: "\n" }, "def f():");
+  assertEquals(plain.messages, [{ role: "user", content: "def f():" }]);
+  assertEquals([plain.max_tokens, plain.stop], [16, "\n"]);
+
+  const fim = translateCompletionToChat({ model: "gemini-2.5-flash", prompt: "a = ", suffix: "\nprint(a)" }, "a = ");
+  assertEquals(fim.messages.length, 2);
+  assertEquals(fim.messages[0].role, "system");
+  assertEquals(fim.messages[1], { role: "user", content: "<prefix>a = </prefix>\n<suffix>\nprint(a)</suffix>" });
+});
+
+Deno.test("translateChatToCompletion - numbers choices across prompts and applies echo", () => {
+  const chatResponse = (content: string, finishReason: "stop" | "length"): ChatCompletionResponse => ({
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 1,
+    model: "gemini-2.5-flash",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: finishReason }],
+    usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 },
+  });
+
+  const response = translateChatToCompletion(
+    [chatResponse(" 1", "stop"), chatResponse(" 2", "length")],
+    { model: "gemini-2.5-flash", prompt: ["a", "b"], echo: true },
+    ["a", "b"],
+    "cmpl-1"
+  );
+
+  assertEquals(response.choices, [
+    { text: "a 1", index: 0, logprobs: null, finish_reason: "stop" },
+    { text: "b 2", index: 1, logprobs: null, finish_reason: "length" },
+  ]);
+  assertEquals(response.usage, { prompt_tokens: 4, completion_tokens: 6, total_tokens: 10 });
+});
+
+Deno.test("createCompletionsStream - converts chat chunks to text_completion chunks", async () => {
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) => ({
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+  const stream = createCompletionsStream(
+    chunkResponse([
+      chunk({ role: "assistant", content: "" }),
+      chunk({ content: " world" }),
+      chunk({}, "stop"),
+      { choices: [], usage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 } },
+    ]),
+    { model: "gemini-2.5-flash", prompt: "hello", echo: true, stream: true },
+    "hello",
+    "cmpl-1"
+  );
+
+  const events = (await new Response(stream).text()).split("\n\n").filter(Boolean).map((event) => event.slice(6));
+  assertEquals(events.at(-1), "[DONE]");
+  const chunks = events.slice(0, -1).map((event) => JSON.parse(event) as CompletionResponse);
+  assertEquals(chunks.map((c) => c.choices.map((choice) => [choice.text, choice.finish_reason])), [
+    [["hello", null]],
+    [[" world", null]],
+    [["", "stop"]],
+    [],
+  ]);
+  assertEquals(chunks.at(-1)?.usage, { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2 });
+});
\ No newline at end of file
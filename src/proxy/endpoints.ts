@@ -0,0 +1,160 @@
+import { ANTIGRAVITY_API, getConfig } from "../config.ts";
+import { log } from "../utils/http.ts";
+
+// 简单的logger封装
+const logger = {
+  info: (msg: string) => log("info", `[endpoints] ${msg}`),
+};
+
+/**
+ * 单个地址的健康状态
+ */
+export interface EndpointHealth {
+  url: string;
+  healthy: boolean;
+  // 连续失败次数
+  failures: number;
+  lastError?: string;
+  lastFailureAt?: string;
+  lastSuccessAt?: string;
+  // 冷却结束时间，冷却期间排在其他地址之后
+  cooldownUntil?: string;
+}
+
+/**
+ * 上游地址池
+ * 按顺序尝试各地址：5xx 或网络错误时标记地址进入冷却并换下一个地址；
+ * 404（模型在该地址不存在）时换下一个地址但不影响健康状态。
+ * 最后一个地址的响应或错误原样返回给调用方，由调用方的重试逻辑处理
+ */
+export class EndpointPool {
+  private health = new Map<string, EndpointHealth>();
+
+  constructor(private baseUrls: readonly string[]) {
+    for (const url of baseUrls) {
+      this.health.set(url, { url, healthy: true, failures: 0 });
+    }
+  }
+
+  /**
+   * 本次请求的尝试顺序：健康地址按配置顺序在前，冷却中的地址按冷却结束时间排在最后
+   */
+  getOrder(): string[] {
+    const now = Date.now();
+    const cooling = (url: string) => {
+      const until = this.health.get(url)!.cooldownUntil;
+      return until && Date.parse(until) > now ? Date.parse(until) : 0;
+    };
+
+    const healthy = this.baseUrls.filter((url) => !cooling(url));
+    const unhealthy = this.baseUrls.filter((url) => cooling(url)).sort((a, b) => cooling(a) - cooling(b));
+    return [...healthy, ...unhealthy];
+  }
+
+  /**
+   * 按地址池发送请求
+   * @param path 请求路径（如 /v1internal:generateContent）
+   * @param send 发送到完整 URL 的请求函数
+   * @param signal 客户端请求的中止信号，取消导致的错误不计入地址失败
+   */
+  async fetch(
+    path: string,
+    send: (url: string) => Promise<Response>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const order = this.getOrder();
+
+    for (let i = 0; i < order.length; i++) {
+      const baseUrl = order[i];
+      const isLast = i === order.length - 1;
+
+      let response: Response;
+      try {
+        response = await send(`${baseUrl}${path}`);
+      } catch (error) {
+        // 客户端取消不代表地址不可用
+        if (signal?.aborted) {
+          throw error;
+        }
+        this.markFailure(baseUrl, String(error));
+        if (isLast) throw error;
+        continue;
+      }
+
+      if (response.status >= 500) {
+        this.markFailure(baseUrl, `HTTP ${response.status}`);
+      } else if (response.status !== 404) {
+        this.markSuccess(baseUrl);
+      }
+
+      if (isLast || (response.status < 500 && response.status !== 404)) {
+        return response;
+      }
+
+      logger.info(`${baseUrl}${path} returned ${response.status}, trying next endpoint`);
+      await response.body?.cancel();
+    }
+
+    // order 至少包含一个地址，不会执行到这里
+    throw new Error("No upstream endpoints configured");
+  }
+
+  /**
+   * 标记地址请求成功，清除冷却
+   */
+  markSuccess(url: string): void {
+    const health = this.health.get(url);
+    if (!health) return;
+
+    if (!health.healthy) {
+      logger.info(`Endpoint recovered: ${url}`);
+    }
+    health.healthy = true;
+    health.failures = 0;
+    health.cooldownUntil = undefined;
+    health.lastSuccessAt = new Date().toISOString();
+  }
+
+  /**
+   * 标记地址请求失败并进入冷却
+   */
+  markFailure(url: string, error: string): void {
+    const health = this.health.get(url);
+    if (!health) return;
+
+    const cooldownSeconds = getConfig().endpointCooldown ?? 60;
+    health.healthy = false;
+    health.failures++;
+    health.lastError = error;
+    health.lastFailureAt = new Date().toISOString();
+    health.cooldownUntil = new Date(Date.now() + cooldownSeconds * 1000).toISOString();
+    logger.info(`Endpoint ${url} marked unhealthy for ${cooldownSeconds}s: ${error}`);
+  }
+
+  /**
+   * 获取各地址的健康状态（冷却已结束的地址视为健康）
+   */
+  getStatus(): EndpointHealth[] {
+    const now = Date.now();
+    return this.baseUrls.map((url) => {
+      const health = { ...this.health.get(url)! };
+      if (health.cooldownUntil && Date.parse(health.cooldownUntil) <= now) {
+        health.healthy = true;
+        health.cooldownUntil = undefined;
+      }
+      return health;
+    });
+  }
+}
+
+let endpointPool: EndpointPool | null = null;
+
+/**
+ * 获取 Antigravity 地址池单例（daily、sandbox、production 依次尝试）
+ */
+export function getEndpointPool(): EndpointPool {
+  if (!endpointPool) {
+    endpointPool = new EndpointPool(ANTIGRAVITY_API.baseUrls);
+  }
+  return endpointPool;
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { loadConfig } from "../config.ts";
+import { EndpointPool } from "./endpoints.ts";
+
+await loadConfig();
+
+const BASE_URLS = ["https://a.example", "https://b.example", "https://c.example"];
+
+/**
+ * 按地址返回预设状态码的请求函数，并记录请求过的 URL
+ */
+function fakeSend(statuses: Record<string, number>) {
+  const calls: string[] = [];
+  const send = (url: string) => {
+    calls.push(url);
+    const status = statuses[new URL(url).origin] ?? 200;
+    return Promise.resolve(new Response(null, { status }));
+  };
+  return { calls, send };
+}
+
+Deno.test("EndpointPool.getOrder - cooling endpoints go last, earliest recovery first", () => {
+  const pool = new EndpointPool(BASE_URLS);
+  assertEquals(pool.getOrder(), BASE_URLS);
+
+  pool.markFailure("https://a.example", "HTTP 503");
+  pool.markFailure("https://b.example", "HTTP 503");
+  assertEquals(pool.getOrder(), ["https://c.example", "https://a.example", "https://b.example"]);
+
+  pool.markSuccess("https://a.example");
+  assertEquals(pool.getOrder(), ["https://a.example", "https://c.example", "https://b.example"]);
+});
+
+Deno.test("EndpointPool.fetch - fails over on 5xx and marks the endpoint", async () => {
+  const pool = new EndpointPool(BASE_URLS);
+  const { calls, send } = fakeSend({ "https://a.example": 503 });
+
+  const response = await pool.fetch("/v1/test", send);
+  assertEquals(response.status, 200);
+  assertEquals(calls, ["https://a.example/v1/test", "https://b.example/v1/test"]);
+
+  const [a, b] = pool.getStatus();
+  assertEquals(a.healthy, false);
+  assertEquals(a.failures, 1);
+  assertEquals(a.lastError, "HTTP 503");
+  assertEquals(b.healthy, true);
+});
+
+Deno.test("EndpointPool.fetch - fails over on network errors", async () => {
+  const pool = new EndpointPool(BASE_URLS);
+  const calls: string[] = [];
+  const response = await pool.fetch("/v1/test", (url) => {
+    calls.push(url);
+    return calls.length === 1 ? Promise.reject(new TypeError("connection refused")) : Promise.resolve(new Response("ok"));
+  });
+
+  assertEquals(response.status, 200);
+  assertEquals(calls.length, 2);
+  assertEquals(pool.getStatus()[0].healthy, false);
+});
+
+Deno.test("EndpointPool.fetch - 404 moves on without marking the endpoint", async () => {
+  const pool = new EndpointPool(BASE_URLS);
+  const { calls, send } = fakeSend({ "https://a.example": 404 });
+
+  const response = await pool.fetch("/v1/test", send);
+  assertEquals(response.status, 200);
+  assertEquals(calls.length, 2);
+  assertEquals(pool.getStatus()[0].healthy, true);
+  assertEquals(pool.getStatus()[0].failures, 0);
+});
+
+Deno.test("EndpointPool.fetch - returns the last endpoint's response when all fail", async () => {
+  const pool = new EndpointPool(BASE_URLS);
+  const { calls, send } = fakeSend({ "https://a.example": 500, "https://b.example": 502, "https://c.example": 503 });
+
+  const response = await pool.fetch("/v1/test", send);
+  assertEquals(response.status, 503);
+  assertEquals(calls.length, 3);
+  assertEquals(pool.getStatus().map((health) => health.healthy), [false, false, false]);
+});
+
+Deno.test("EndpointPool.fetch - client cancellation is rethrown without marking", async () => {
+  const pool = new EndpointPool(BASE_URLS);
+  const controller = new AbortController();
+  const calls: string[] = [];
+
+  await assertRejects(
+    () =>
+      pool.fetch("/v1/test", (url) => {
+        calls.push(url);
+        controller.abort();
+        return Promise.reject(new DOMException("aborted", "AbortError"));
+      }, controller.signal),
+    DOMException
+  );
+  assertEquals(calls.length, 1);
+  assertEquals(pool.getStatus()[0].healthy, true);
+});
+
+Deno.test("EndpointPool.getStatus - expired cooldowns are reported as healthy", () => {
+  const pool = new EndpointPool(BASE_URLS);
+  pool.markFailure("https://a.example", "HTTP 500");
+
+  const now = Date.now;
+  try {
+    Date.now = () => now() + 24 * 60 * 60 * 1000;
+    const [a] = pool.getStatus();
+    assertEquals(a.healthy, true);
+    assertEquals(a.cooldownUntil, undefined);
+    assertEquals(a.failures, 1);
+  } finally {
+    Date.now = now;
+  }
+});
\ No newline at end of file
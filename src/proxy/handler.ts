@@ -1,16 +1,40 @@
-import type { ChatCompletionRequest, ChatCompletionResponse, ChatCompletionChunk } from "../types.ts";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatCompletionChunk,
+  GeminiGenerateContentRequest,
+  ImagesConfig,
+} from "../types.ts";
 import { TokenManager } from "../auth/token_manager.ts";
-import { UpstreamClient, parseSSEStream, UpstreamError } from "./upstream.ts";
+import { UpstreamClient, parseSSEStream, getStreamError, primeSSEStream, UpstreamError } from "./upstream.ts";
+import { extractJsonOutput, validateJsonOutput } from "./schema.ts";
 import {
   translateToAntigravity,
   translateFromAntigravity,
+  findUnsupportedParams,
   translateStreamChunk,
+  hasStreamContent,
+  createStreamTranslationState,
   createInitialChunk,
-  createFinalChunk,
+  createStreamFinishChunk,
+  createUsageChunk,
+  wrapGeminiRequest,
+  unwrapGeminiResponse,
 } from "./translator.ts";
-import { log, errorResponse, jsonResponse, createSSEStream } from "../utils/http.ts";
+import {
+  log,
+  errorResponse,
+  jsonResponse,
+  createSSEStream,
+  createLinkedAbortController,
+  InvalidRequestError,
+  sseErrorEvent,
+  cancelledResponse,
+} from "../utils/http.ts";
 import { generateUUID } from "../utils/crypto.ts";
-import { getConfig } from "../config.ts";
+import { getAntigravityModel, getConfig } from "../config.ts";
+import { getRequestStats } from "./stats.ts";
+import { withAccountRetry } from "./retry.ts";
 
 // 简单的logger封装
 const logger = {
@@ -19,6 +43,11 @@ const logger = {
   error: (msg: string) => log("error", `[handler] ${msg}`),
 };
 
+/**
+ * 账号轮换时获取的 Antigravity token 信息
+ */
+type AntigravityTokenInfo = Awaited<ReturnType<TokenManager["getAntigravityToken"]>>;
+
 /**
  * Antigravity代理处理器
  */
@@ -29,27 +58,95 @@ export class AntigravityProxyHandler {
 
   constructor(tokenManager: TokenManager) {
     this.tokenManager = tokenManager;
-    this.upstreamClient = new UpstreamClient(true); // 使用daily API
+    this.upstreamClient = new UpstreamClient(); // 依次尝试 daily、sandbox、production
     this.maxRetries = getConfig().maxRetries || 3;
   }
 
+  /**
+   * 使用 Antigravity 账号轮换重试
+   * @param label 日志中的请求名称
+   */
+  private withRetry<R>(
+    label: string,
+    signal: AbortSignal | undefined,
+    attempt: (tokenInfo: AntigravityTokenInfo, retry: number) => Promise<R>
+  ): Promise<R> {
+    return withAccountRetry({
+      label,
+      maxRetries: this.maxRetries,
+      getToken: (rotate) => this.tokenManager.getAntigravityToken(rotate),
+      markFailed: (accountId) => this.tokenManager.markAntigravityAccountFailed(accountId),
+      upstreamError: UpstreamError,
+      signal,
+    }, attempt);
+  }
+
   /**
    * 处理聊天完成请求
+   * @param signal 客户端请求的中止信号，断开时取消上游请求
    */
-  async handleChatCompletion(request: ChatCompletionRequest): Promise<Response> {
+  async handleChatCompletion(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
     try {
       // 验证请求
       if (!request.messages || request.messages.length === 0) {
         return errorResponse(400, "messages is required");
       }
 
-      if (request.stream) {
-        return await this.handleStreamingRequest(request);
-      } else {
-        return await this.handleNonStreamingRequest(request);
+      // 严格 json_schema 需要校验完整输出后才能返回，流式响应无法满足
+      const jsonSchema = request.response_format?.type === "json_schema"
+        ? request.response_format.json_schema
+        : undefined;
+      if (request.stream && jsonSchema?.strict) {
+        return errorResponse(
+          400,
+          "response_format.json_schema.strict is not supported with stream: true",
+          "invalid_request_error"
+        );
+      }
+
+      // 上游不支持的参数按配置拒绝或忽略
+      const unsupported = findUnsupportedParams(request);
+      if (unsupported.length > 0 && getConfig().unsupportedParams === "reject") {
+        return errorResponse(
+          400,
+          `Unsupported parameter(s) for model '${request.model}': ${unsupported.join(", ")}`,
+          "invalid_request_error"
+        );
+      }
+
+      // 预检上下文长度，超出时在消耗账号配额前拒绝
+      const contextError = await this.checkContextLength(request, signal);
+      if (contextError) {
+        return contextError;
       }
+
+      const response = request.stream
+        ? await this.handleStreamingRequest(request, signal)
+        : await this.handleNonStreamingRequest(request, signal);
+
+      // 流式请求的结果由转换流在结束时记录
+      if (!request.stream) {
+        getRequestStats().record("antigravity", response.ok ? "completed" : "failed");
+      }
+
+      if (unsupported.length > 0) {
+        logger.info(`Ignored unsupported parameters: ${unsupported.join(", ")}`);
+        response.headers.set("Warning", `299 - "Ignored unsupported parameters: ${unsupported.join(", ")}"`);
+      }
+
+      return response;
     } catch (error) {
+      if (signal?.aborted) {
+        getRequestStats().record("antigravity", "cancelled");
+        return cancelledResponse("antigravity", request.model);
+      }
+
       logger.error(`Chat completion error: ${error}`);
+      getRequestStats().record("antigravity", "failed");
+
+      if (error instanceof InvalidRequestError) {
+        return errorResponse(400, error.message, "invalid_request_error");
+      }
       
       if (error instanceof UpstreamError) {
         return errorResponse(
@@ -64,133 +161,296 @@ export class AntigravityProxyHandler {
   }
 
   /**
-   * 处理非流式请求
+   * 统计聊天请求的输入 token 数（含账号轮换重试）
    */
-  private async handleNonStreamingRequest(
-    request: ChatCompletionRequest
-  ): Promise<Response> {
-    let lastError: Error | null = null;
-
-    for (let retry = 0; retry < this.maxRetries; retry++) {
-      try {
-        // 获取token（如果之前失败则强制轮换）
-        const tokenInfo = await this.tokenManager.getAntigravityToken(retry > 0);
-        
-        logger.info(`Using account: ${tokenInfo.email} (attempt ${retry + 1})`);
-
-        // 转换请求
-        const antigravityRequest = await translateToAntigravity(
-          request,
-          tokenInfo.projectId
-        );
+  async countTokens(request: ChatCompletionRequest, signal?: AbortSignal): Promise<number> {
+    return await this.withRetry("Count tokens", signal, async (tokenInfo) => {
+      const antigravityRequest = await translateToAntigravity(request, tokenInfo.projectId);
+      return await this.upstreamClient.countTokens(
+        antigravityRequest,
+        tokenInfo.accessToken,
+        signal,
+        tokenInfo.account.proxy_url
+      );
+    });
+  }
 
-        // 发送请求
-        const response = await this.upstreamClient.generateContent(
-          antigravityRequest,
-          tokenInfo.accessToken
-        );
+  /**
+   * 检查输入是否超出模型上下文长度（需开启 contextLengthCheck）
+   * 统计失败时不阻止请求
+   * @returns 超出时返回 context_length_exceeded 错误响应，否则返回 null
+   */
+  private async checkContextLength(request: ChatCompletionRequest, signal?: AbortSignal): Promise<Response | null> {
+    if (!getConfig().contextLengthCheck) return null;
 
-        // 转换响应
-        const openaiResponse = translateFromAntigravity(response, request.model);
-        
-        return jsonResponse(openaiResponse);
-      } catch (error) {
-        lastError = error as Error;
-        logger.error(`Attempt ${retry + 1} failed: ${error}`);
-
-        // 如果是认证错误，标记账号失败并尝试下一个
-        if (error instanceof UpstreamError && error.isAuthError()) {
-          const tokenInfo = await this.tokenManager.getAntigravityToken(false).catch(() => null);
-          if (tokenInfo) {
-            this.tokenManager.markAntigravityAccountFailed(tokenInfo.account.id);
-            logger.info(`Marked account as failed: ${tokenInfo.email}`);
-          }
-        }
+    const limit = getAntigravityModel(request.model)?.inputTokenLimit;
+    if (!limit) return null;
 
-        // 如果不是可重试的错误，直接抛出
-        if (error instanceof UpstreamError && !error.isRetryable() && !error.isAuthError()) {
-          throw error;
-        }
+    let count: number;
+    try {
+      count = await this.countTokens(request, signal);
+    } catch (error) {
+      if (error instanceof InvalidRequestError || signal?.aborted) {
+        throw error;
       }
+      logger.info(`Skipping context length check: ${error}`);
+      return null;
     }
 
-    throw lastError || new Error("Request failed after all retries");
+    if (count <= limit) return null;
+
+    logger.info(`Rejected request with ${count} input tokens (limit ${limit})`);
+    return errorResponse(
+      400,
+      `This model's maximum context length is ${limit} tokens. However, your messages resulted in ${count} tokens. Please reduce the length of the messages.`,
+      "invalid_request_error",
+      "context_length_exceeded"
+    );
   }
 
   /**
-   * 处理流式请求
+   * 处理Gemini原生请求（generateContent / streamGenerateContent）
+   * @param sse 流式响应是否使用SSE格式（alt=sse），否则返回JSON数组流
+   * @param signal 客户端请求的中止信号，断开时取消上游请求
    */
-  private async handleStreamingRequest(
-    request: ChatCompletionRequest
+  async handleGeminiNative(
+    model: string,
+    request: GeminiGenerateContentRequest,
+    stream: boolean,
+    sse: boolean,
+    signal?: AbortSignal
   ): Promise<Response> {
-    const chunkId = `chatcmpl-${generateUUID()}`;
-    
-    let lastError: Error | null = null;
-
-    for (let retry = 0; retry < this.maxRetries; retry++) {
-      try {
-        // 获取token
-        const tokenInfo = await this.tokenManager.getAntigravityToken(retry > 0);
-        
-        logger.info(`Streaming with account: ${tokenInfo.email} (attempt ${retry + 1})`);
-
-        // 转换请求
-        const antigravityRequest = await translateToAntigravity(
-          request,
-          tokenInfo.projectId
-        );
+    try {
+      if (!request.contents || request.contents.length === 0) {
+        return errorResponse(400, "contents is required");
+      }
+
+      const upstreamAbort = createLinkedAbortController(signal);
+      return await this.withRetry("Gemini native request", signal, async (tokenInfo, retry) => {
+        logger.info(`Gemini native request with account: ${tokenInfo.email} (attempt ${retry + 1})`);
+
+        // 包装为Antigravity请求
+        const antigravityRequest = await wrapGeminiRequest(model, request, tokenInfo.projectId);
+
+        if (!stream) {
+          const response = await this.upstreamClient.generateContent(
+            antigravityRequest,
+            tokenInfo.accessToken,
+            signal,
+            tokenInfo.account.proxy_url
+          );
+          getRequestStats().record("antigravity", "completed");
+          return jsonResponse(unwrapGeminiResponse(response));
+        }
 
-        // 发送流式请求
         const upstreamStream = await this.upstreamClient.streamGenerateContent(
           antigravityRequest,
-          tokenInfo.accessToken
-        );
-
-        // 创建转换流
-        const transformedStream = this.createTransformStream(
-          upstreamStream,
-          request.model,
-          chunkId
+          tokenInfo.accessToken,
+          upstreamAbort.signal,
+          tokenInfo.account.proxy_url
         );
 
-        return new Response(transformedStream, {
+        return new Response(this.createGeminiNativeStream(upstreamStream, sse, upstreamAbort), {
           headers: {
-            "Content-Type": "text/event-stream",
+            "Content-Type": sse ? "text/event-stream" : "application/json",
             "Cache-Control": "no-cache",
             "Connection": "keep-alive",
           },
         });
-      } catch (error) {
-        lastError = error as Error;
-        logger.error(`Streaming attempt ${retry + 1} failed: ${error}`);
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        getRequestStats().record("antigravity", "cancelled");
+        return cancelledResponse("antigravity", model);
+      }
 
-        if (error instanceof UpstreamError && !error.isRetryable() && !error.isAuthError()) {
-          throw error;
-        }
+      logger.error(`Gemini native error: ${error}`);
+      getRequestStats().record("antigravity", "failed");
+
+      if (error instanceof UpstreamError) {
+        return errorResponse(
+          error.statusCode,
+          error.message,
+          "upstream_error"
+        );
       }
+
+      return errorResponse(500, `Internal server error: ${error}`);
     }
+  }
+
+  /**
+   * 处理非流式请求
+   * json_schema 且 strict 为 true 时校验输出，不符合 schema 则重新生成
+   */
+  private async handleNonStreamingRequest(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const jsonSchema = request.response_format?.type === "json_schema"
+      ? request.response_format.json_schema
+      : undefined;
+    if (!jsonSchema?.strict || !jsonSchema.schema) {
+      return jsonResponse(await this.generateContent(request, undefined, signal));
+    }
+
+    const maxAttempts = (getConfig().structuredOutputRetries ?? 1) + 1;
+    let violations: string[] = [];
 
-    throw lastError || new Error("Streaming request failed after all retries");
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const openaiResponse = await this.generateContent(request, undefined, signal);
+      const message = openaiResponse.choices[0]?.message;
+
+      // 模型选择调用工具时不校验
+      if (message?.tool_calls?.length) {
+        return jsonResponse(openaiResponse);
+      }
+
+      const content = typeof message?.content === "string" ? message.content : "";
+      violations = validateJsonOutput(content, jsonSchema.schema);
+      if (violations.length === 0) {
+        // 返回校验过的 JSON 本身（去掉代码块标记）
+        message.content = extractJsonOutput(content);
+        return jsonResponse(openaiResponse);
+      }
+
+      logger.info(
+        `Structured output does not match schema (attempt ${attempt + 1}/${maxAttempts}): ${violations.slice(0, 3).join("; ")}`
+      );
+    }
+
+    return errorResponse(
+      502,
+      `Model output does not match the requested JSON schema: ${violations.slice(0, 5).join("; ")}`,
+      "upstream_error"
+    );
+  }
+
+  /**
+   * 生成图片（/v1/images 接口），生成的图片始终通过 message.images 返回
+   */
+  async generateImages(request: ChatCompletionRequest, signal?: AbortSignal): Promise<ChatCompletionResponse> {
+    return await this.generateContent(request, "array", signal);
+  }
+
+  /**
+   * 发送非流式请求（含账号轮换重试）
+   * @param imageOutput 生成图片的返回方式，默认使用配置
+   * @param signal 客户端请求的中止信号
+   */
+  private async generateContent(
+    request: ChatCompletionRequest,
+    imageOutput?: ImagesConfig["chatOutput"],
+    signal?: AbortSignal
+  ): Promise<ChatCompletionResponse> {
+    return await this.withRetry("Request", signal, async (tokenInfo, retry) => {
+      logger.info(`Using account: ${tokenInfo.email} (attempt ${retry + 1})`);
+
+      // 转换请求
+      const antigravityRequest = await translateToAntigravity(
+        request,
+        tokenInfo.projectId
+      );
+
+      // 发送请求
+      const response = await this.upstreamClient.generateContent(
+        antigravityRequest,
+        tokenInfo.accessToken,
+        signal,
+        tokenInfo.account.proxy_url
+      );
+
+      // 转换响应
+      const openaiResponse = translateFromAntigravity(
+        response,
+        request.model,
+        antigravityRequest.request.sessionId,
+        imageOutput
+      );
+      
+      return openaiResponse;
+    });
+  }
+
+  /**
+   * 处理流式请求
+   */
+  private async handleStreamingRequest(
+    request: ChatCompletionRequest,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const chunkId = `chatcmpl-${generateUUID()}`;
+    const upstreamAbort = createLinkedAbortController(signal);
+    
+    return await this.withRetry("Streaming request", signal, async (tokenInfo, retry) => {
+      logger.info(`Streaming with account: ${tokenInfo.email} (attempt ${retry + 1})`);
+
+      // 转换请求
+      const antigravityRequest = await translateToAntigravity(
+        request,
+        tokenInfo.projectId
+      );
+
+      // 发送流式请求
+      const upstreamStream = await this.upstreamClient.streamGenerateContent(
+        antigravityRequest,
+        tokenInfo.accessToken,
+        upstreamAbort.signal,
+        tokenInfo.account.proxy_url
+      );
+
+      // 缓冲到首个有效内容，错误或空流在向客户端发送数据前换账号重试
+      const upstreamEvents = await primeSSEStream(
+        upstreamStream,
+        hasStreamContent,
+        getStreamError,
+        (getConfig().firstChunkTimeout ?? 60) * 1000
+      );
+
+      // 创建转换流
+      const transformedStream = this.createTransformStream(
+        upstreamEvents,
+        upstreamAbort,
+        request.model,
+        chunkId,
+        antigravityRequest.request.sessionId,
+        !!request.stream_options?.include_usage
+      );
+
+      return new Response(transformedStream, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+        },
+      });
+    });
   }
 
   /**
    * 创建流转换器
+   * @param upstreamAbort 客户端取消读取时中止上游请求
    */
   private createTransformStream(
-    upstreamStream: ReadableStream<Uint8Array>,
+    upstreamEvents: AsyncIterable<unknown>,
+    upstreamAbort: AbortController,
     model: string,
-    chunkId: string
+    chunkId: string,
+    sessionId?: string,
+    includeUsage = false
   ): ReadableStream<Uint8Array> {
     const encoder = new TextEncoder();
     let sentInitial = false;
     let hasContent = false;
+    const state = createStreamTranslationState(sessionId);
+    let cancelled = false;
     
     const self = this;
 
     return new ReadableStream({
       async start(controller) {
         try {
-          for await (const chunk of parseSSEStream(upstreamStream)) {
+          for await (const chunk of upstreamEvents) {
             // 发送初始chunk
             if (!sentInitial) {
               const initialChunk = createInitialChunk(model, chunkId);
@@ -200,9 +460,13 @@ export class AntigravityProxyHandler {
               sentInitial = true;
             }
 
+            const streamError = getStreamError(chunk);
+            if (streamError) {
+              throw streamError;
+            }
+
             // 转换并发送chunk
-            const translatedChunk = translateStreamChunk(chunk, model, chunkId);
-            if (translatedChunk) {
+            for (const translatedChunk of translateStreamChunk(chunk, model, chunkId, state)) {
               hasContent = true;
               controller.enqueue(
                 encoder.encode(`data: ${JSON.stringify(translatedChunk)}\n\n`)
@@ -212,19 +476,110 @@ export class AntigravityProxyHandler {
 
           // 发送结束chunk
           if (hasContent || sentInitial) {
-            const finalChunk = createFinalChunk(model, chunkId);
+            const finalChunk = createStreamFinishChunk(model, chunkId, state);
             controller.enqueue(
               encoder.encode(`data: ${JSON.stringify(finalChunk)}\n\n`)
             );
           }
 
+          // 发送用量chunk
+          if (includeUsage) {
+            const usageChunk = createUsageChunk(model, chunkId, state.usage);
+            controller.enqueue(
+              encoder.encode(`data: ${JSON.stringify(usageChunk)}\n\n`)
+            );
+          }
+
           controller.enqueue(encoder.encode("data: [DONE]\n\n"));
           controller.close();
+          getRequestStats().record("antigravity", "completed");
         } catch (error) {
+          if (upstreamAbort.signal.aborted) {
+            logger.info(`Stream cancelled by client: ${model}`);
+            getRequestStats().record("antigravity", "cancelled");
+            if (!cancelled) controller.close();
+            return;
+          }
+
+          // 流已开始，以错误事件通知客户端而不是直接断开连接
           logger.error(`Stream transform error: ${error}`);
-          controller.error(error);
+          getRequestStats().record("antigravity", "failed");
+          const status = error instanceof UpstreamError ? error.statusCode : 502;
+          const message = error instanceof Error ? error.message : String(error);
+          controller.enqueue(encoder.encode(sseErrorEvent(message, status)));
+          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+          controller.close();
+        }
+      },
+      cancel() {
+        cancelled = true;
+        upstreamAbort.abort();
+      },
+    });
+  }
+
+  /**
+   * 创建Gemini原生流（解包response字段后原样输出）
+   */
+  private createGeminiNativeStream(
+    upstreamStream: ReadableStream<Uint8Array>,
+    sse: boolean,
+    upstreamAbort: AbortController
+  ): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cancelled = false;
+
+    return new ReadableStream({
+      async start(controller) {
+        let first = true;
+        try {
+          // 非SSE模式下与Google API一致，输出JSON数组
+          if (!sse) {
+            controller.enqueue(encoder.encode("["));
+          }
+
+          for await (const chunk of parseSSEStream(upstreamStream)) {
+            const data = JSON.stringify(unwrapGeminiResponse(chunk));
+            if (sse) {
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            } else {
+              controller.enqueue(encoder.encode(first ? data : `,\n${data}`));
+            }
+            first = false;
+          }
+
+          if (!sse) {
+            controller.enqueue(encoder.encode("]"));
+          }
+          controller.close();
+          getRequestStats().record("antigravity", "completed");
+        } catch (error) {
+          if (upstreamAbort.signal.aborted) {
+            logger.info("Gemini native stream cancelled by client");
+            getRequestStats().record("antigravity", "cancelled");
+            if (!cancelled) controller.close();
+            return;
+          }
+
+          // 以 Google RPC 错误格式追加到流中，上游嵌入的错误对象已原样转发
+          logger.error(`Gemini native stream error: ${error}`);
+          getRequestStats().record("antigravity", "failed");
+          const status = error instanceof UpstreamError ? error.statusCode : 502;
+          const data = JSON.stringify({
+            error: {
+              code: status,
+              message: error instanceof Error ? error.message : String(error),
+              status: "UNAVAILABLE",
+            },
+          });
+          controller.enqueue(encoder.encode(sse ? `data: ${data}\n\n` : `${first ? "" : ",\n"}${data}]`));
+          controller.close();
         }
       },
+      cancel() {
+        cancelled = true;
+        upstreamAbort.abort();
+      },
     });
   }
 }
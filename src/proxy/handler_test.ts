@@ -0,0 +1,400 @@
+import { assert, assertEquals } from "@std/assert";
+import type { TokenManager } from "../auth/token_manager.ts";
+import { getConfig, loadConfig } from "../config.ts";
+import type { GeminiGenerateContentRequest } from "../types.ts";
+import { AntigravityProxyHandler } from "./handler.ts";
+import { getRequestStats } from "./stats.ts";
+
+await loadConfig();
+getConfig().contextLengthCheck = false;
+
+/**
+ * 按顺序轮换给定账号的 TokenManager，记录被标记失败的账号
+ */
+function fakeTokenManager(accounts: Array<{ id: string; proxy_url?: string }> = [{ id: "account-1" }]) {
+  let index = 0;
+  const failed: string[] = [];
+  const tokenManager = {
+    getAntigravityToken: (rotate: boolean) => {
+      if (rotate) index = (index + 1) % accounts.length;
+      const account = accounts[index];
+      return Promise.resolve({ accessToken: "token", projectId: "project", email: `${account.id}@example.com`, account });
+    },
+    markAntigravityAccountFailed: (id: string) => failed.push(id),
+  } as unknown as TokenManager;
+  return { tokenManager, failed };
+}
+
+/**
+ * 临时替换 fetch，所有上游请求返回给定的 SSE 文本
+ */
+async function withUpstream<T>(body: string, fn: () => Promise<T>): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = () => Promise.resolve(new Response(body, { headers: { "Content-Type": "text/event-stream" } }));
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * 临时替换 fetch，按请求地址返回响应并记录请求
+ */
+async function withFetch<T>(
+  respond: (url: string, body: Record<string, unknown>) => Response,
+  fn: (requests: Array<{ url: string; body: Record<string, unknown> }>) => Promise<T>
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  const requests: Array<{ url: string; body: Record<string, unknown> }> = [];
+  globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const body = JSON.parse(String(init?.body ?? "{}"));
+    requests.push({ url, body });
+    return Promise.resolve(respond(url, body));
+  };
+  try {
+    return await fn(requests);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * 读取 SSE 响应中的全部 data 负载
+ */
+async function readEvents(response: Response): Promise<string[]> {
+  const text = await response.text();
+  return text.split("\n\n").filter((event) => event.startsWith("data: ")).map((event) => event.slice(6));
+}
+
+Deno.test("AntigravityProxyHandler - malformed upstream chunk ends the stream with an error event and [DONE]", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const upstream = [
+    `data: ${JSON.stringify({ response: { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] } }] } })}`,
+    'data: {"response": {"candidates": [',
+    "",
+  ].join("\n\n");
+
+  const events = await withUpstream(upstream, async () => {
+    const response = await handler.handleChatCompletion({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+    });
+    assertEquals(response.status, 200);
+    return await readEvents(response);
+  });
+
+  const content = events
+    .slice(0, -2)
+    .map((event) => JSON.parse(event).choices[0]?.delta?.content ?? "")
+    .join("");
+  assertEquals(content, "Hello");
+
+  const error = JSON.parse(events.at(-2)!).error;
+  assertEquals(error.type, "upstream_error");
+  assertEquals(error.code, 502);
+  assert(error.message.startsWith("Malformed upstream stream data"), error.message);
+  assertEquals(events.at(-1), "[DONE]");
+});
+
+Deno.test("AntigravityProxyHandler - an invalid account proxy fails over to the next account", async () => {
+  const { tokenManager } = fakeTokenManager([{ id: "bad-proxy", proxy_url: "ftp://proxy.example.com" }, { id: "direct" }]);
+  const handler = new AntigravityProxyHandler(tokenManager);
+  const upstream = JSON.stringify({
+    response: { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }] },
+  });
+
+  const response = await withUpstream(upstream, () =>
+    handler.handleChatCompletion({ model: "gemini-2.5-flash", messages: [{ role: "user", content: "hi" }] })
+  );
+  assertEquals(response.status, 200);
+  assertEquals((await response.json()).choices[0].message.content, "Hello");
+});
+
+Deno.test("AntigravityProxyHandler - an invalid proxy on every account is a server error, not a 400", async () => {
+  const { tokenManager } = fakeTokenManager([{ id: "bad-proxy", proxy_url: "ftp://proxy.example.com" }]);
+  const handler = new AntigravityProxyHandler(tokenManager);
+
+  const response = await handler.handleChatCompletion({ model: "gemini-2.5-flash", messages: [{ role: "user", content: "hi" }] });
+  assertEquals(response.status, 500);
+  await response.body?.cancel();
+});
+
+Deno.test("AntigravityProxyHandler - client cancellation is recorded once as cancelled", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const controller = new AbortController();
+  const before = getRequestStats().getStats().antigravity;
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = () => {
+    controller.abort();
+    return Promise.reject(new DOMException("aborted", "AbortError"));
+  };
+  try {
+    const response = await handler.handleChatCompletion(
+      { model: "gemini-2.5-flash", messages: [{ role: "user", content: "hi" }] },
+      controller.signal
+    );
+    assertEquals(response.status, 499);
+    await response.body?.cancel();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  const after = getRequestStats().getStats().antigravity;
+  assertEquals(after.cancelled - before.cancelled, 1);
+  assertEquals(after.failed - before.failed, 0);
+});
+
+Deno.test("AntigravityProxyHandler - strict json_schema returns the unfenced JSON", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const upstream = JSON.stringify({
+    response: {
+      candidates: [{
+        content: { role: "model", parts: [{ text: '```json\n{"name": "Ada"}\n```' }] },
+        finishReason: "STOP",
+      }],
+    },
+  });
+
+  const response = await withUpstream(upstream, () =>
+    handler.handleChatCompletion({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "hi" }],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "person",
+          strict: true,
+          schema: { type: "object", properties: { name: { type: "string" } }, required: ["name"] },
+        },
+      },
+    })
+  );
+  assertEquals(response.status, 200);
+  assertEquals((await response.json()).choices[0].message.content, '{"name": "Ada"}');
+});
+
+Deno.test("AntigravityProxyHandler - Gemini native requests return unwrapped responses", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const first = { candidates: [{ content: { role: "model", parts: [{ text: "Hel", thoughtSignature: "sig" }] } }] };
+  const second = { candidates: [{ content: { role: "model", parts: [{ text: "lo" }] }, finishReason: "STOP" }] };
+  const upstream = [first, second].map((chunk) => `data: ${JSON.stringify({ response: chunk })}\n\n`).join("");
+  const request: GeminiGenerateContentRequest = { contents: [{ role: "user", parts: [{ text: "hi" }] }] };
+
+  const cases = [
+    { name: "sse", stream: true, sse: true, expected: `data: ${JSON.stringify(first)}\n\ndata: ${JSON.stringify(second)}\n\n` },
+    { name: "json array", stream: true, sse: false, expected: `[${JSON.stringify(first)},\n${JSON.stringify(second)}]` },
+  ];
+  for (const { name, stream, sse, expected } of cases) {
+    const response = await withUpstream(upstream, () => handler.handleGeminiNative("gemini-2.5-flash", request, stream, sse));
+    assertEquals(response.headers.get("Content-Type"), sse ? "text/event-stream" : "application/json", name);
+    assertEquals(await response.text(), expected, name);
+  }
+
+  const response = await withUpstream(JSON.stringify({ response: second }), () =>
+    handler.handleGeminiNative("gemini-2.5-flash", request, false, false)
+  );
+  assertEquals(await response.json(), second);
+});
+
+Deno.test("AntigravityProxyHandler - Gemini native requests without contents are rejected", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const response = await handler.handleGeminiNative("gemini-2.5-flash", { contents: [] }, false, false);
+  assertEquals(response.status, 400);
+  await response.body?.cancel();
+});
+Deno.test("AntigravityProxyHandler - include_usage adds a final usage chunk with empty choices", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const upstream = `data: ${JSON.stringify({
+    response: {
+      candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }],
+      usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+    },
+  })}\n\n`;
+
+  const cases = [
+    { name: "include_usage", streamOptions: { include_usage: true }, usageChunk: true },
+    { name: "default", streamOptions: undefined, usageChunk: false },
+  ];
+  for (const { name, streamOptions, usageChunk } of cases) {
+    const events = await withUpstream(upstream, async () => {
+      const response = await handler.handleChatCompletion({
+        model: "gemini-2.5-flash",
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+        stream_options: streamOptions,
+      });
+      return await readEvents(response);
+    });
+
+    assertEquals(events.at(-1), "[DONE]", name);
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+    const usageChunks = chunks.filter((chunk) => chunk.usage);
+    assertEquals(usageChunks.length, usageChunk ? 1 : 0, name);
+    if (usageChunk) {
+      assertEquals(chunks.at(-1).choices, [], name);
+      assertEquals(chunks.at(-1).usage, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }, name);
+      assertEquals(chunks.at(-2).choices[0].finish_reason, "stop", name);
+    } else {
+      assertEquals(chunks.at(-1).choices[0].finish_reason, "stop", name);
+    }
+  }
+});
+Deno.test("AntigravityProxyHandler - countTokens counts system instructions, contents and tools", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+
+  const count = await withFetch(() => new Response(JSON.stringify({ totalTokens: 42 })), async (requests) => {
+    const count = await handler.countTokens({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "system", content: "Be brief." }, { role: "user", content: "hi" }],
+      tools: [{ type: "function", function: { name: "lookup", parameters: { type: "object" } } }],
+    });
+
+    assert(requests[0].url.endsWith(":countTokens"), requests[0].url);
+    const upstream = requests[0].body.request as { model: string; contents: Array<{ parts: Array<{ text?: string }> }> };
+    assertEquals(upstream.model, "models/gemini-2.5-flash");
+    assertEquals(upstream.contents.map((content) => content.parts[0].text?.slice(0, 9)), ["Be brief.", "hi", '[{"functi']);
+    return count;
+  });
+  assertEquals(count, 42);
+});
+
+Deno.test("AntigravityProxyHandler - context length pre-flight rejects oversized input and tolerates count failures", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const completion = JSON.stringify({
+    response: { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }] },
+  });
+  const cases = [
+    { name: "over the limit", countResponse: () => new Response(JSON.stringify({ totalTokens: 2_000_000 })), status: 400 },
+    { name: "within the limit", countResponse: () => new Response(JSON.stringify({ totalTokens: 10 })), status: 200 },
+    { name: "count failure", countResponse: () => new Response("unavailable", { status: 503 }), status: 200 },
+  ];
+
+  getConfig().contextLengthCheck = true;
+  try {
+    for (const { name, countResponse, status } of cases) {
+      const response = await withFetch(
+        (url) => url.endsWith(":countTokens") ? countResponse() : new Response(completion),
+        () => handler.handleChatCompletion({ model: "gemini-2.5-flash", messages: [{ role: "user", content: "hi" }] })
+      );
+      assertEquals(response.status, status, name);
+      const body = await response.json();
+      if (status === 400) {
+        assertEquals(body.error.code, "context_length_exceeded", name);
+      }
+    }
+  } finally {
+    getConfig().contextLengthCheck = false;
+  }
+});
+Deno.test("AntigravityProxyHandler - an upstream error after content becomes an error event and [DONE]", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const upstream = [
+    { response: { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] } },
+    { error: { code: 429, message: "Resource exhausted", status: "RESOURCE_EXHAUSTED" } },
+  ].map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("");
+
+  const events = await withUpstream(upstream, async () => {
+    const response = await handler.handleChatCompletion({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+    });
+    return await readEvents(response);
+  });
+
+  assertEquals(JSON.parse(events.at(-2)!), {
+    error: { message: "Upstream stream error: Resource exhausted", type: "upstream_error", code: 429 },
+  });
+  assertEquals(events.at(-1), "[DONE]");
+});
+
+Deno.test("AntigravityProxyHandler - Gemini native stream errors are appended in RPC format", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const first = { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] };
+  const upstream = `data: ${JSON.stringify({ response: first })}\n\ndata: {"response": [\n\n`;
+  const request: GeminiGenerateContentRequest = { contents: [{ role: "user", parts: [{ text: "hi" }] }] };
+
+  const text = await withUpstream(upstream, async () => {
+    const response = await handler.handleGeminiNative("gemini-2.5-flash", request, true, false);
+    return await response.text();
+  });
+
+  const [chunk, error] = JSON.parse(text);
+  assertEquals(chunk, first);
+  assertEquals([error.error.code, error.error.status], [502, "UNAVAILABLE"]);
+});
+Deno.test("AntigravityProxyHandler - a stream that fails before content fails over to the next account", async () => {
+  const { tokenManager } = fakeTokenManager([{ id: "account-1" }, { id: "account-2" }]);
+  const handler = new AntigravityProxyHandler(tokenManager);
+  const bodies = [
+    `data: ${JSON.stringify({ error: { code: 429, message: "Resource exhausted" } })}\n\n`,
+    `data: ${JSON.stringify({
+      response: { candidates: [{ content: { role: "model", parts: [{ text: "Hello" }] }, finishReason: "STOP" }] },
+    })}\n\n`,
+  ];
+
+  const events = await withFetch(
+    () => new Response(bodies.shift(), { headers: { "Content-Type": "text/event-stream" } }),
+    async (requests) => {
+      const response = await handler.handleChatCompletion({
+        model: "gemini-2.5-flash",
+        messages: [{ role: "user", content: "hi" }],
+        stream: true,
+      });
+      const events = await readEvents(response);
+      assertEquals(requests.length, 2);
+      return events;
+    }
+  );
+
+  const content = events
+    .slice(0, -1)
+    .map((event) => JSON.parse(event).choices[0]?.delta?.content ?? "")
+    .join("");
+  assertEquals(content, "Hello");
+  assertEquals(events.at(-1), "[DONE]");
+});
+Deno.test("AntigravityProxyHandler - cancelling the client stream aborts the upstream request", async () => {
+  const handler = new AntigravityProxyHandler(fakeTokenManager().tokenManager);
+  const before = getRequestStats().getStats().antigravity;
+  const chunk = { response: { candidates: [{ content: { role: "model", parts: [{ text: "Hel" }] } }] } };
+  let upstreamSignal: AbortSignal | undefined;
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    const signal = init!.signal!;
+    upstreamSignal = signal;
+    // 与真实 fetch 一致：中止后响应体报错；否则发送一个内容 chunk 后保持连接
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(chunk)}\n\n`));
+        signal.addEventListener("abort", () => controller.error(new DOMException("aborted", "AbortError")), { once: true });
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: { "Content-Type": "text/event-stream" } }));
+  };
+  try {
+    const response = await handler.handleChatCompletion({
+      model: "gemini-2.5-flash",
+      messages: [{ role: "user", content: "hi" }],
+      stream: true,
+    });
+    const reader = response.body!.getReader();
+    await reader.read();
+    await reader.cancel();
+
+    for (let i = 0; i < 100 && getRequestStats().getStats().antigravity.cancelled === before.cancelled; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+
+  assertEquals(upstreamSignal?.aborted, true);
+  const after = getRequestStats().getStats().antigravity;
+  assertEquals([after.cancelled - before.cancelled, after.failed - before.failed], [1, 0]);
+});
\ No newline at end of file
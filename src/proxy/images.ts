@@ -0,0 +1,293 @@
+import { join } from "@std/path";
+import { decodeBase64, encodeBase64 } from "@std/encoding/base64";
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ContentPart,
+  ImageConfigOptions,
+  ImageGenerationRequest,
+  ImagesResponse,
+} from "../types.ts";
+import { getConfig, isAntigravityModel, isDeployEnvironment } from "../config.ts";
+import { InvalidRequestError, log } from "../utils/http.ts";
+import { generateUUID } from "../utils/crypto.ts";
+import type { InlineMedia } from "./media.ts";
+import { isImageModel } from "./translator.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[images] ${msg}`),
+  error: (msg: string) => log("error", `[images] ${msg}`),
+};
+
+/**
+ * Gemini 图片模型支持的宽高比
+ */
+const SUPPORTED_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "4:5", "5:4", "9:16", "16:9", "21:9"];
+
+/**
+ * 图片 MIME 类型到文件扩展名的映射
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+};
+
+/**
+ * 保存的图片文件名
+ */
+const IMAGE_FILE_PATTERN = /^[0-9a-f]{32}\.(png|jpg|webp)$/;
+
+/**
+ * 图片编辑请求（/v1/images/edits 的 JSON 形式）
+ */
+export interface ImageEditRequest extends ImageGenerationRequest {
+  images?: Array<{ image_url: string }>;
+  mask?: { image_url: string };
+}
+
+/**
+ * 宽高比字符串转数值
+ */
+function ratioOf(aspectRatio: string): number {
+  const [width, height] = aspectRatio.split(":").map(Number);
+  return width / height;
+}
+
+/**
+ * OpenAI size / quality 转 Gemini 图片配置
+ * 宽高比取最接近的支持值，分辨率按最长边映射为 1K / 2K / 4K
+ */
+export function sizeToImageConfig(size?: string, aspectRatio?: string, quality?: string): ImageConfigOptions {
+  const config: ImageConfigOptions = {};
+
+  if (aspectRatio) {
+    if (!SUPPORTED_ASPECT_RATIOS.includes(aspectRatio)) {
+      throw new InvalidRequestError(
+        `Unsupported aspect_ratio '${aspectRatio}'; supported: ${SUPPORTED_ASPECT_RATIOS.join(", ")}`,
+        "aspect_ratio"
+      );
+    }
+    config.aspect_ratio = aspectRatio;
+  }
+
+  if (size && size !== "auto") {
+    const match = size.match(/^(\d+)x(\d+)$/);
+    if (!match) {
+      throw new InvalidRequestError(`Invalid size '${size}'; expected WIDTHxHEIGHT or auto`, "size");
+    }
+
+    const width = parseInt(match[1], 10);
+    const height = parseInt(match[2], 10);
+    if (!config.aspect_ratio) {
+      const ratio = width / height;
+      config.aspect_ratio = SUPPORTED_ASPECT_RATIOS.reduce((best, candidate) =>
+        Math.abs(Math.log(ratioOf(candidate) / ratio)) < Math.abs(Math.log(ratioOf(best) / ratio)) ? candidate : best
+      );
+    }
+
+    const longest = Math.max(width, height);
+    config.image_size = longest <= 1024 ? "1K" : longest <= 2048 ? "2K" : "4K";
+  }
+
+  // 高质量至少使用 2K
+  if ((quality === "hd" || quality === "high") && (!config.image_size || config.image_size === "1K")) {
+    config.image_size = "2K";
+  }
+
+  return config;
+}
+
+/**
+ * 选择图片接口使用的模型
+ * 请求的模型不是 Antigravity 图片模型（如 dall-e-3、gpt-image-1）时使用配置的模型
+ */
+export function resolveImageModel(model: string | undefined): string {
+  if (model && isAntigravityModel(model) && isImageModel(model)) {
+    return model;
+  }
+  return getConfig().images!.model;
+}
+
+/**
+ * 上传的文件转 data URL
+ */
+export async function fileToDataUrl(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return `data:${file.type || "image/png"};base64,${encodeBase64(bytes)}`;
+}
+
+/**
+ * 图片请求转聊天完成请求
+ * @param images 待编辑的图片 URL（data URL 或远程 URL）
+ * @param mask 遮罩图片 URL，作为最后一张图片并附加说明
+ */
+export function buildImageChatRequest(
+  request: ImageGenerationRequest,
+  images: string[] = [],
+  mask?: string
+): ChatCompletionRequest {
+  const content: ContentPart[] = images.map((url) => ({ type: "image_url", image_url: { url } }));
+
+  let prompt = request.prompt;
+  if (mask) {
+    content.push({ type: "image_url", image_url: { url: mask } });
+    prompt = `The last image is a mask: only change the areas where it is transparent.\n\n${prompt}`;
+  }
+  content.push({ type: "text", text: prompt });
+
+  return {
+    model: resolveImageModel(request.model),
+    messages: [{ role: "user", content }],
+    modalities: ["text", "image"],
+    image_config: sizeToImageConfig(request.size, request.aspect_ratio, request.quality),
+    user: request.user,
+  };
+}
+
+/**
+ * 提取聊天响应中生成的图片
+ * @returns 图片、模型附带的文本，以及是否被安全策略拦截
+ */
+export function extractGeneratedImages(
+  chatResponses: ChatCompletionResponse[]
+): { images: InlineMedia[]; text: string; blocked: boolean } {
+  const images: InlineMedia[] = [];
+  const texts: string[] = [];
+  let blocked = false;
+
+  for (const response of chatResponses) {
+    for (const choice of response.choices || []) {
+      if (choice.finish_reason === "content_filter") {
+        blocked = true;
+      }
+      if (typeof choice.message.content === "string" && choice.message.content) {
+        texts.push(choice.message.content);
+      }
+      for (const image of choice.message.images || []) {
+        const match = image.image_url.url.match(/^data:([^;,]+);base64,(.+)$/s);
+        if (match) {
+          images.push({ mimeType: match[1], data: match[2] });
+        }
+      }
+    }
+  }
+
+  return { images, text: texts.join("\n"), blocked };
+}
+
+/**
+ * 生成图片的保存目录
+ */
+function getImagesDir(): string {
+  return join(getConfig().dataDir, "images");
+}
+
+/**
+ * 保存的图片是否已超过有效期
+ */
+function isImageExpired(mtime: Date | null): boolean {
+  const ttl = getConfig().images?.fileTtl ?? 0;
+  return ttl > 0 && !!mtime && Date.now() - mtime.getTime() > ttl * 1000;
+}
+
+/**
+ * 清理保存的图片：删除过期的文件，文件数仍超过 maxFiles 时从最旧的开始删除
+ */
+async function sweepGeneratedImages(dir: string): Promise<void> {
+  const maxFiles = getConfig().images?.maxFiles ?? 0;
+  const files: Array<{ name: string; mtime: Date | null }> = [];
+  for await (const entry of Deno.readDir(dir)) {
+    if (entry.isFile && IMAGE_FILE_PATTERN.test(entry.name)) {
+      const { mtime } = await Deno.stat(join(dir, entry.name));
+      files.push({ name: entry.name, mtime });
+    }
+  }
+
+  // 最新的在前
+  files.sort((a, b) => (b.mtime?.getTime() ?? 0) - (a.mtime?.getTime() ?? 0));
+  const removed = files.filter((file, i) => isImageExpired(file.mtime) || (maxFiles > 0 && i >= maxFiles));
+
+  for (const file of removed) {
+    try {
+      await Deno.remove(join(dir, file.name));
+    } catch (error) {
+      // 并发清理时可能已被删除
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+  }
+  if (removed.length > 0) {
+    logger.debug(`Removed ${removed.length} generated image(s)`);
+  }
+}
+
+/**
+ * 保存生成的图片，返回文件名
+ * 保存后清理过期和超出数量的图片，清理失败不影响本次请求
+ */
+async function saveGeneratedImage(media: InlineMedia): Promise<string> {
+  if (isDeployEnvironment()) {
+    throw new InvalidRequestError(
+      "response_format 'url' is not available in this deployment; use b64_json",
+      "response_format"
+    );
+  }
+
+  const { ensureDir } = await import("@std/fs");
+  const dir = getImagesDir();
+  await ensureDir(dir);
+
+  const name = `${generateUUID().replace(/-/g, "")}.${IMAGE_EXTENSIONS[media.mimeType] || "png"}`;
+  await Deno.writeFile(join(dir, name), decodeBase64(media.data));
+  logger.debug(`Saved generated image ${name}`);
+
+  try {
+    await sweepGeneratedImages(dir);
+  } catch (error) {
+    logger.error(`Failed to clean up generated images: ${error}`);
+  }
+  return name;
+}
+
+/**
+ * 读取保存的图片（文件名不合法、不存在或已过期时返回 null）
+ */
+export async function readGeneratedImage(name: string): Promise<{ data: Uint8Array<ArrayBuffer>; mimeType: string } | null> {
+  const match = name.match(IMAGE_FILE_PATTERN);
+  if (!match) return null;
+
+  try {
+    const path = join(getImagesDir(), name);
+    if (isImageExpired((await Deno.stat(path)).mtime)) return null;
+    const data = await Deno.readFile(path);
+    const mimeType = Object.keys(IMAGE_EXTENSIONS).find((type) => IMAGE_EXTENSIONS[type] === match[1])!;
+    return { data, mimeType };
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+/**
+ * 构建图片接口响应
+ * @param baseUrl response_format=url 时图片地址的前缀
+ */
+export async function buildImagesResponse(
+  images: InlineMedia[],
+  responseFormat: ImageGenerationRequest["response_format"],
+  baseUrl: string
+): Promise<ImagesResponse> {
+  const data: ImagesResponse["data"] = [];
+
+  for (const image of images) {
+    if (responseFormat === "url") {
+      const name = await saveGeneratedImage(image);
+      data.push({ url: `${baseUrl.replace(/\/$/, "")}/v1/images/files/${name}` });
+    } else {
+      data.push({ b64_json: image.data });
+    }
+  }
+
+  return { created: Math.floor(Date.now() / 1000), data };
+}
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { assertEquals, assertExists } from "@std/assert";
+import { join } from "@std/path";
+import { getConfig, loadConfig } from "../config.ts";
+import { buildImagesResponse, readGeneratedImage, sizeToImageConfig } from "./images.ts";
+
+await loadConfig();
+
+// 1x1 透明 PNG
+const PNG = {
+  mimeType: "image/png",
+  data: "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=",
+};
+
+/**
+ * 在临时数据目录中执行测试，结束后恢复配置并删除目录
+ */
+async function withImagesDir(
+  options: { fileTtl: number; maxFiles: number },
+  fn: (dir: string) => Promise<void>
+): Promise<void> {
+  const config = getConfig();
+  const saved = { dataDir: config.dataDir, images: config.images };
+  const dataDir = await Deno.makeTempDir();
+  config.dataDir = dataDir;
+  config.images = { ...config.images!, ...options };
+  try {
+    await fn(join(dataDir, "images"));
+  } finally {
+    config.dataDir = saved.dataDir;
+    config.images = saved.images;
+    await Deno.remove(dataDir, { recursive: true });
+  }
+}
+
+/**
+ * 保存一张图片，返回文件名
+ */
+async function saveImage(): Promise<string> {
+  const response = await buildImagesResponse([PNG], "url", "http://localhost:8080");
+  return response.data[0].url!.split("/").pop()!;
+}
+
+async function listImages(dir: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(dir)) names.push(entry.name);
+  return names.sort();
+}
+
+Deno.test("sizeToImageConfig - maps sizes to the nearest aspect ratio and resolution", () => {
+  const cases = [
+    { size: "1024x1024", expected: { aspect_ratio: "1:1", image_size: "1K" } },
+    { size: "1536x1024", expected: { aspect_ratio: "3:2", image_size: "2K" } },
+    { size: "1024x1792", expected: { aspect_ratio: "9:16", image_size: "2K" } },
+    { size: "1024x1024", quality: "hd", expected: { aspect_ratio: "1:1", image_size: "2K" } },
+    { size: "auto", expected: {} },
+  ];
+
+  for (const { size, quality, expected } of cases) {
+    assertEquals(sizeToImageConfig(size, undefined, quality), expected, `${size} ${quality ?? ""}`);
+  }
+});
+
+Deno.test("buildImagesResponse - b64_json does not write files", async () => {
+  await withImagesDir({ fileTtl: 3600, maxFiles: 10 }, async (dir) => {
+    const response = await buildImagesResponse([PNG], "b64_json", "http://localhost:8080");
+    assertEquals(response.data, [{ b64_json: PNG.data }]);
+    assertEquals(await Deno.stat(dir).then(() => true, () => false), false);
+  });
+});
+
+Deno.test("buildImagesResponse - url images are capped at maxFiles", async () => {
+  await withImagesDir({ fileTtl: 0, maxFiles: 2 }, async (dir) => {
+    const names: string[] = [];
+    for (let i = 0; i < 3; i++) {
+      names.push(await saveImage());
+      // 保证修改时间不同
+      await Deno.utime(join(dir, names[i]), Date.now() / 1000, (Date.now() - (3 - i) * 1000) / 1000);
+    }
+
+    assertEquals(await listImages(dir), names.slice(1).sort());
+    assertEquals(await readGeneratedImage(names[0]), null);
+    assertExists(await readGeneratedImage(names[2]));
+  });
+});
+
+Deno.test("buildImagesResponse - expired images are not served and are removed on the next save", async () => {
+  await withImagesDir({ fileTtl: 60, maxFiles: 0 }, async (dir) => {
+    const expired = await saveImage();
+    const oneHourAgo = (Date.now() - 3600 * 1000) / 1000;
+    await Deno.utime(join(dir, expired), oneHourAgo, oneHourAgo);
+    assertEquals(await readGeneratedImage(expired), null);
+
+    const fresh = await saveImage();
+    assertEquals(await listImages(dir), [fresh]);
+    assertEquals((await readGeneratedImage(fresh))?.mimeType, "image/png");
+  });
+});
\ No newline at end of file
@@ -1,10 +1,54 @@
 export { AntigravityProxyHandler, createAntigravityHandler } from "./handler.ts";
 export { CodexProxyHandler, createCodexHandler, CodexUpstreamError } from "./codex_handler.ts";
+export {
+  translateToCodexRequest,
+  createCodexStreamState,
+  flushCodexStreamState,
+  translateCodexStreamEvent,
+  translateFromCodex,
+  translateCodexUsage,
+} from "./codex_translator.ts";
 export { UpstreamClient, UpstreamError, parseSSEStream, getUpstreamClient } from "./upstream.ts";
 export {
   translateToAntigravity,
   translateFromAntigravity,
+  findUnsupportedParams,
   translateStreamChunk,
+  createStreamTranslationState,
   createInitialChunk,
   createFinalChunk,
-} from "./translator.ts";
\ No newline at end of file
+  createStreamFinishChunk,
+  createUsageChunk,
+  translateUsageMetadata,
+  wrapGeminiRequest,
+  unwrapGeminiResponse,
+} from "./translator.ts";
+export {
+  translateAnthropicToOpenAI,
+  translateOpenAIToAnthropic,
+  createAnthropicStream,
+  anthropicErrorResponse,
+  translateErrorToAnthropic,
+} from "./anthropic.ts";
+export {
+  ResponsesStore,
+  getResponsesStore,
+  translateResponsesToChat,
+  translateChatToResponses,
+  createResponsesStream,
+} from "./responses.ts";
+export {
+  normalizePrompts,
+  translateCompletionToChat,
+  translateChatToCompletion,
+  createCompletionsStream,
+} from "./completions.ts";
+export {
+  buildImageChatRequest,
+  buildImagesResponse,
+  extractGeneratedImages,
+  sizeToImageConfig,
+} from "./images.ts";
+export { ThoughtSignatureCache, getSignatureCache } from "./signature_cache.ts";
+export { RequestStats, getRequestStats } from "./stats.ts";
+export { EndpointPool, getEndpointPool } from "./endpoints.ts";
\ No newline at end of file
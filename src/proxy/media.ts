@@ -0,0 +1,423 @@
+import { encodeBase64 } from "@std/encoding/base64";
+import type { MediaConfig } from "../types.ts";
+import { getConfig } from "../config.ts";
+import { httpFetch, InvalidRequestError, log } from "../utils/http.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[media] ${msg}`),
+  warn: (msg: string) => log("warn", `[media] ${msg}`),
+};
+
+/**
+ * 内联媒体数据（对应 Gemini inlineData）
+ */
+export interface InlineMedia {
+  mimeType: string;
+  data: string;
+}
+
+/**
+ * 音频格式到 MIME 类型的映射
+ */
+const AUDIO_FORMAT_MIME_TYPES: Record<string, string> = {
+  wav: "audio/wav",
+  mp3: "audio/mp3",
+  aac: "audio/aac",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+  aiff: "audio/aiff",
+  pcm16: "audio/pcm",
+};
+
+/**
+ * 文件扩展名到 MIME 类型的映射
+ */
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  txt: "text/plain",
+  md: "text/markdown",
+  csv: "text/csv",
+  html: "text/html",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  heic: "image/heic",
+  mp4: "video/mp4",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  mpeg: "video/mpeg",
+  wav: "audio/wav",
+  mp3: "audio/mp3",
+  ogg: "audio/ogg",
+  flac: "audio/flac",
+};
+
+/**
+ * 远程资源缓存
+ */
+const remoteCache: Map<string, { media: InlineMedia; expiresAt: number }> = new Map();
+
+/**
+ * 获取媒体配置
+ */
+function getMediaConfig(): MediaConfig {
+  return getConfig().media!;
+}
+
+/**
+ * 估算 base64 数据解码后的字节数
+ */
+function base64ByteLength(data: string): number {
+  const padding = data.endsWith("==") ? 2 : data.endsWith("=") ? 1 : 0;
+  return Math.floor((data.length * 3) / 4) - padding;
+}
+
+/**
+ * 校验 MIME 类型和大小
+ */
+function validateMedia(mimeType: string, size: number, source: string): void {
+  const config = getMediaConfig();
+
+  const allowed = config.allowedMimeTypes.some((type) =>
+    type.endsWith("/") ? mimeType.startsWith(type) : mimeType === type
+  );
+  if (!allowed) {
+    throw new InvalidRequestError(`Unsupported media type '${mimeType}' for ${source}`);
+  }
+
+  if (size > config.maxBytes) {
+    throw new InvalidRequestError(
+      `Media from ${source} is ${size} bytes, which exceeds the limit of ${config.maxBytes} bytes`
+    );
+  }
+}
+
+/**
+ * 根据文件名推断 MIME 类型
+ */
+export function mimeTypeFromFilename(filename: string | undefined): string | undefined {
+  const extension = filename?.split(".").pop()?.toLowerCase();
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+}
+
+/**
+ * 解析 data: URL
+ */
+function parseDataUrl(url: string): InlineMedia | null {
+  const match = url.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.+)$/s);
+  if (!match) return null;
+  return { mimeType: match[1].toLowerCase(), data: match[2] };
+}
+
+/**
+ * 下载远程资源时最多跟随的重定向次数
+ */
+const MAX_MEDIA_REDIRECTS = 5;
+
+/**
+ * 解析点分十进制 IPv4 地址
+ */
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part))) return null;
+  const octets = parts.map(Number);
+  return octets.every((octet) => octet <= 255) ? octets : null;
+}
+
+/**
+ * 解析 IPv6 地址为 8 个 16 位分组（支持 :: 缩写和末尾内嵌 IPv4）
+ */
+function parseIPv6(address: string): number[] | null {
+  let text = address.toLowerCase().replace(/%.*$/, "");
+  const lastColon = text.lastIndexOf(":");
+  const embedded = parseIPv4(text.slice(lastColon + 1));
+  if (embedded) {
+    const high = ((embedded[0] << 8) | embedded[1]).toString(16);
+    const low = ((embedded[2] << 8) | embedded[3]).toString(16);
+    text = `${text.slice(0, lastColon + 1)}${high}:${low}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(":") : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * 判断 IPv4 地址是否属于本机、内网、链路本地或保留网段
+ */
+function isPrivateIPv4([a, b, c]: number[]): boolean {
+  return a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224;
+}
+
+/**
+ * 判断地址是否不可作为远程媒体来源（本机、内网、链路本地、多播和保留地址）
+ * 无法解析的地址按不可访问处理
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const groups = parseIPv6(address.replace(/^\[|\]$/g, ""));
+  if (!groups) return true;
+
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff];
+  const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+  // ::/96（含 :: 和 ::1）、::ffff:0:0/96 映射地址、64:ff9b::/96 NAT64 按内嵌 IPv4 判断
+  if (leadingZeros && (groups[5] === 0 || groups[5] === 0xffff)) {
+    return groups[5] === 0 && groups[6] === 0 ? true : isPrivateIPv4(embeddedIPv4);
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4);
+  }
+
+  return (groups[0] & 0xfe00) === 0xfc00 || // fc00::/7 唯一本地地址
+    (groups[0] & 0xffc0) === 0xfe80 || // fe80::/10 链路本地
+    (groups[0] & 0xff00) === 0xff00; // ff00::/8 多播
+}
+
+/**
+ * 解析主机名并拒绝指向内网地址的 URL，防止通过媒体 URL 访问内部服务
+ * 校验结果不会固定到实际连接：fetch 会重新解析主机名，无法防御校验后改变解析结果的 DNS rebinding（见 README）
+ */
+async function assertPublicUrl(url: URL, signal: AbortSignal): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new InvalidRequestError(`Unsupported media URL: ${url.href.slice(0, 64)}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  let addresses = [hostname];
+  if (!parseIPv4(hostname) && !hostname.includes(":")) {
+    const results = await Promise.allSettled([
+      Deno.resolveDns(hostname, "A", { signal }),
+      Deno.resolveDns(hostname, "AAAA", { signal }),
+    ]);
+    addresses = results.flatMap((result) => result.status === "fulfilled" ? result.value : []);
+    if (addresses.length === 0) {
+      throw new InvalidRequestError(`Cannot resolve media host '${hostname}'`);
+    }
+  }
+
+  if (addresses.some(isPrivateAddress)) {
+    logger.warn(`Blocked media URL ${url.href} resolving to ${addresses.join(", ")}`);
+    throw new InvalidRequestError(`Media URL ${url.href} points to a private or reserved address`);
+  }
+}
+
+/**
+ * 请求远程资源，手动跟随重定向并在每一跳重新校验目标地址
+ */
+async function fetchPublicUrl(url: URL, signal: AbortSignal): Promise<Response> {
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicUrl(url, signal);
+    const response = await httpFetch(url, { signal, redirect: "manual" });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    if (redirects >= MAX_MEDIA_REDIRECTS) {
+      throw new InvalidRequestError(`Too many redirects downloading media from ${url.href}`);
+    }
+    url = new URL(location, url);
+  }
+}
+
+/**
+ * 在截止时间内下载远程资源，超过大小限制时中止读取
+ * 同一个截止时间覆盖响应头和响应体，超时后取消读取
+ */
+async function downloadMedia(url: string, fallbackMimeType?: string): Promise<InlineMedia> {
+  const config = getMediaConfig();
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), config.fetchTimeout * 1000);
+  const timeoutError = () =>
+    new InvalidRequestError(`Timed out downloading media from ${url} after ${config.fetchTimeout}s`);
+
+  try {
+    let response: Response;
+    try {
+      response = await fetchPublicUrl(new URL(url), controller.signal);
+    } catch (error) {
+      if (controller.signal.aborted) throw timeoutError();
+      if (error instanceof InvalidRequestError) throw error;
+      throw new InvalidRequestError(`Failed to download media from ${url}: ${error}`);
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new InvalidRequestError(`Failed to download media from ${url}: HTTP ${response.status}`);
+    }
+
+    const contentType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase();
+    const mimeType = contentType && contentType !== "application/octet-stream"
+      ? contentType
+      : fallbackMimeType || mimeTypeFromFilename(new URL(url).pathname) || "application/octet-stream";
+
+    const declaredLength = parseInt(response.headers.get("content-length") || "0", 10);
+    validateMedia(mimeType, declaredLength, url);
+
+    // 分块读取，避免无 Content-Length 时读入超大文件
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    const reader = response.body!.getReader();
+    const cancelOnTimeout = () => reader.cancel().catch(() => {});
+    controller.signal.addEventListener("abort", cancelOnTimeout, { once: true });
+    try {
+      while (true) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (controller.signal.aborted) throw timeoutError();
+          throw new InvalidRequestError(`Failed to download media from ${url}: ${error}`);
+        }
+        // 取消读取后 read() 可能以 done 结束，不能当作完整数据
+        if (controller.signal.aborted) throw timeoutError();
+        if (result.done) break;
+
+        total += result.value.length;
+        if (total > config.maxBytes) {
+          await reader.cancel();
+          validateMedia(mimeType, total, url);
+        }
+        chunks.push(result.value);
+      }
+    } finally {
+      controller.signal.removeEventListener("abort", cancelOnTimeout);
+      reader.releaseLock();
+    }
+
+    const bytes = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    logger.debug(`Downloaded ${total} bytes (${mimeType}) from ${url}`);
+    return { mimeType, data: encodeBase64(bytes) };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * 获取远程资源（带缓存）
+ */
+async function fetchRemoteMedia(url: string, fallbackMimeType?: string): Promise<InlineMedia> {
+  const config = getMediaConfig();
+
+  if (!config.fetchRemote) {
+    throw new InvalidRequestError(`Remote media URLs are disabled: ${url}`);
+  }
+
+  if (config.cacheEnabled) {
+    const cached = remoteCache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      logger.debug(`Cache hit for ${url}`);
+      return cached.media;
+    }
+    remoteCache.delete(url);
+  }
+
+  const media = await downloadMedia(url, fallbackMimeType);
+
+  if (config.cacheEnabled) {
+    remoteCache.set(url, { media, expiresAt: Date.now() + config.cacheTtl * 1000 });
+    while (remoteCache.size > config.cacheMaxEntries) {
+      const oldest = remoteCache.keys().next().value;
+      if (oldest === undefined) break;
+      remoteCache.delete(oldest);
+    }
+  }
+
+  return media;
+}
+
+/**
+ * 解析媒体 URL（data: 或 http(s)://）为内联数据
+ * @param fallbackMimeType 无法从 URL 或响应头确定类型时使用
+ */
+export async function resolveMediaUrl(url: string, fallbackMimeType?: string): Promise<InlineMedia> {
+  if (url.startsWith("data:")) {
+    const media = parseDataUrl(url);
+    if (!media) {
+      throw new InvalidRequestError("Invalid data URL: expected base64-encoded content");
+    }
+    validateMedia(media.mimeType, base64ByteLength(media.data), "data URL");
+    return media;
+  }
+
+  if (url.startsWith("http://") || url.startsWith("https://")) {
+    return await fetchRemoteMedia(url, fallbackMimeType);
+  }
+
+  throw new InvalidRequestError(`Unsupported media URL: ${url.slice(0, 64)}`);
+}
+
+/**
+ * 解析 OpenAI input_audio 内容
+ */
+export function resolveInputAudio(audio: { data: string; format: string }): InlineMedia {
+  const format = audio.format?.toLowerCase();
+  const mimeType = AUDIO_FORMAT_MIME_TYPES[format];
+  if (!mimeType) {
+    throw new InvalidRequestError(`Unsupported input_audio format '${audio.format}'`);
+  }
+  if (!audio.data) {
+    throw new InvalidRequestError("input_audio.data is required");
+  }
+
+  validateMedia(mimeType, base64ByteLength(audio.data), "input_audio");
+  return { mimeType, data: audio.data };
+}
+
+/**
+ * 解析 OpenAI file 内容（file_data 可以是 data URL、远程 URL 或纯 base64）
+ */
+export async function resolveFilePart(
+  file: { file_data?: string; file_id?: string; filename?: string }
+): Promise<InlineMedia> {
+  if (!file.file_data) {
+    if (file.file_id) {
+      throw new InvalidRequestError("file_id references are not supported; send file_data instead");
+    }
+    throw new InvalidRequestError("file.file_data is required");
+  }
+
+  const filenameMimeType = mimeTypeFromFilename(file.filename);
+
+  if (/^(data:|https?:\/\/)/.test(file.file_data)) {
+    return await resolveMediaUrl(file.file_data, filenameMimeType);
+  }
+
+  // 纯 base64 数据，根据文件名推断类型
+  if (!filenameMimeType) {
+    logger.warn(`Cannot infer MIME type for file '${file.filename ?? ""}'`);
+    throw new InvalidRequestError("Cannot determine the file type; use a data URL or a filename with an extension");
+  }
+
+  validateMedia(filenameMimeType, base64ByteLength(file.file_data), file.filename || "file");
+  return { mimeType: filenameMimeType, data: file.file_data };
+}
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { assert, assertFalse } from "@std/assert";
+import { isPrivateAddress } from "./media.ts";
+
+Deno.test("isPrivateAddress - private and reserved IPv4 ranges", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "224.0.0.1", "255.255.255.255"]) {
+    assert(isPrivateAddress(address), address);
+  }
+});
+
+Deno.test("isPrivateAddress - public IPv4 addresses", () => {
+  for (const address of ["8.8.8.8", "1.1.1.1", "172.32.0.1", "192.169.0.1"]) {
+    assertFalse(isPrivateAddress(address), address);
+  }
+});
+
+Deno.test("isPrivateAddress - private, special and embedded IPv6 addresses", () => {
+  for (const address of ["::1", "::", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::a00:1"]) {
+    assert(isPrivateAddress(address), address);
+  }
+  assertFalse(isPrivateAddress("2001:4860:4860::8888"));
+  assertFalse(isPrivateAddress("::ffff:8.8.8.8"));
+});
+
+Deno.test("isPrivateAddress - unparseable addresses are treated as private", () => {
+  assert(isPrivateAddress("not-an-ip"));
+  assert(isPrivateAddress("1.2.3"));
+});
\ No newline at end of file
@@ -0,0 +1,614 @@
+import type {
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  ContentPart,
+  ResponseFormat,
+  ResponsesItem,
+  ResponsesRequest,
+  ResponsesResponse,
+  ResponsesTextFormat,
+  StreamToolCallDelta,
+} from "../types.ts";
+import { InvalidRequestError, readSSEStream, log } from "../utils/http.ts";
+import { generateUUID } from "../utils/crypto.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[responses] ${msg}`),
+  error: (msg: string) => log("error", `[responses] ${msg}`),
+};
+
+/**
+ * 生成带前缀的项ID，例如 resp_xxx、msg_xxx、fc_xxx
+ */
+export function generateItemId(prefix: string): string {
+  return `${prefix}_${generateUUID().replace(/-/g, "")}`;
+}
+
+// ==================== 本地响应存储 ====================
+
+/**
+ * Responses 本地存储
+ * 保存每个响应对应的完整会话项，用于 previous_response_id 链式调用
+ */
+export class ResponsesStore {
+  private entries: Map<string, { items: ResponsesItem[]; createdAt: number }> = new Map();
+  private maxEntries: number;
+  private ttlMs: number;
+
+  constructor(maxEntries: number = 1000, ttlMs: number = 60 * 60 * 1000) {
+    this.maxEntries = maxEntries;
+    this.ttlMs = ttlMs;
+  }
+
+  /**
+   * 获取响应对应的历史项（包含该响应的输出）
+   */
+  getHistory(responseId: string): ResponsesItem[] | null {
+    const entry = this.entries.get(responseId);
+    if (!entry) return null;
+
+    if (Date.now() - entry.createdAt > this.ttlMs) {
+      this.entries.delete(responseId);
+      return null;
+    }
+
+    return entry.items;
+  }
+
+  /**
+   * 保存响应的完整历史项
+   */
+  save(responseId: string, items: ResponsesItem[]): void {
+    this.entries.set(responseId, { items, createdAt: Date.now() });
+
+    // 超出容量时按插入顺序淘汰最旧的记录
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+
+    logger.debug(`Saved response ${responseId} (${items.length} items)`);
+  }
+}
+
+let responsesStore: ResponsesStore | null = null;
+
+/**
+ * 获取 Responses 存储单例
+ */
+export function getResponsesStore(): ResponsesStore {
+  if (!responsesStore) {
+    responsesStore = new ResponsesStore();
+  }
+  return responsesStore;
+}
+
+// ==================== 请求转换 ====================
+
+/**
+ * 规范化 input 为项数组
+ */
+export function normalizeResponsesInput(input: string | ResponsesItem[]): ResponsesItem[] {
+  if (typeof input === "string") {
+    return [{
+      type: "message",
+      role: "user",
+      content: [{ type: "input_text", text: input }],
+    }];
+  }
+
+  return input.map((item) => item.type ? item : { ...item, type: "message" });
+}
+
+/**
+ * 准备重放给 Codex 的历史项
+ * Codex 以 store=false 方式调用，不能引用服务端项ID，无加密内容的 reasoning 项也无法重放
+ */
+export function prepareHistoryForReplay(items: ResponsesItem[]): ResponsesItem[] {
+  return items
+    .filter((item) => item.type !== "reasoning" || item.encrypted_content)
+    .map((item) => {
+      const { id: _id, ...rest } = item;
+      return rest;
+    });
+}
+
+/**
+ * Responses 消息内容转 OpenAI 消息内容
+ */
+function itemContentToChatContent(content: ResponsesItem["content"]): string | ContentPart[] {
+  if (content === undefined) return "";
+  if (typeof content === "string") return content;
+
+  const parts: ContentPart[] = [];
+  for (const part of content) {
+    if ((part.type === "input_text" || part.type === "output_text") && part.text) {
+      parts.push({ type: "text", text: part.text });
+    } else if (part.type === "input_image" && part.image_url) {
+      parts.push({ type: "image_url", image_url: { url: part.image_url } });
+    }
+  }
+
+  // 纯文本内容合并为字符串
+  if (parts.every((p) => p.type === "text")) {
+    return parts.map((p) => p.text).join("");
+  }
+  return parts;
+}
+
+/**
+ * Responses text.format 转聊天完成 response_format（text 为默认值，无需转换）
+ */
+function textFormatToResponseFormat(format: ResponsesTextFormat): ResponseFormat | undefined {
+  switch (format.type) {
+    case "text":
+      return undefined;
+    case "json_object":
+      return { type: "json_object" };
+    case "json_schema":
+      return {
+        type: "json_schema",
+        json_schema: {
+          name: format.name || "response",
+          description: format.description,
+          schema: format.schema,
+          strict: format.strict,
+        },
+      };
+    default:
+      throw new InvalidRequestError(
+        `Unsupported text.format.type '${(format as { type?: string }).type}'`,
+        "text.format.type"
+      );
+  }
+}
+
+/**
+ * Responses 请求转 OpenAI 聊天完成请求
+ * @param items 已展开历史记录的完整输入项
+ */
+export function translateResponsesToChat(
+  request: ResponsesRequest,
+  items: ResponsesItem[]
+): ChatCompletionRequest {
+  const messages: ChatMessage[] = [];
+
+  if (request.instructions) {
+    messages.push({ role: "system", content: request.instructions });
+  }
+
+  for (const item of items) {
+    switch (item.type) {
+      case "message": {
+        const role = item.role === "developer" ? "system" : item.role || "user";
+        messages.push({ role, content: itemContentToChatContent(item.content) });
+        break;
+      }
+      case "function_call": {
+        const toolCall = {
+          id: item.call_id || generateItemId("call"),
+          type: "function" as const,
+          function: {
+            name: item.name || "",
+            arguments: item.arguments || "{}",
+          },
+        };
+        // 连续的 function_call 合并到同一条 assistant 消息
+        const last = messages[messages.length - 1];
+        if (last && last.role === "assistant" && !last.content && last.tool_calls) {
+          last.tool_calls.push(toolCall);
+        } else {
+          messages.push({ role: "assistant", content: null, tool_calls: [toolCall] });
+        }
+        break;
+      }
+      case "function_call_output":
+        messages.push({
+          role: "tool",
+          tool_call_id: item.call_id,
+          content: item.output || "",
+        });
+        break;
+      default:
+        // reasoning 等其他项无需转发
+        break;
+    }
+  }
+
+  const chatRequest: ChatCompletionRequest = {
+    model: request.model,
+    messages,
+    stream: request.stream,
+    max_tokens: request.max_output_tokens,
+    temperature: request.temperature,
+    top_p: request.top_p,
+    user: request.user,
+    reasoning_effort: request.reasoning?.effort,
+  };
+
+  if (request.text?.format) {
+    chatRequest.response_format = textFormatToResponseFormat(request.text.format);
+  }
+
+  // 流式请求需要用量chunk来填充 response.completed 中的 usage
+  if (request.stream) {
+    chatRequest.stream_options = { include_usage: true };
+  }
+
+  const functionTools = (request.tools || []).filter((t) => t.type === "function" && t.name);
+  if (functionTools.length > 0) {
+    chatRequest.tools = functionTools.map((t) => ({
+      type: "function",
+      function: {
+        name: t.name!,
+        description: t.description,
+        parameters: t.parameters,
+      },
+    }));
+  }
+
+  if (typeof request.tool_choice === "string") {
+    chatRequest.tool_choice = request.tool_choice;
+  } else if (request.tool_choice?.type === "function") {
+    chatRequest.tool_choice = { type: "function", function: { name: request.tool_choice.name } };
+  }
+
+  return chatRequest;
+}
+
+// ==================== 响应转换 ====================
+
+/**
+ * 构建 Responses 响应对象
+ */
+function buildResponseObject(
+  responseId: string,
+  request: ResponsesRequest,
+  createdAt: number,
+  output: ResponsesItem[],
+  finishReason: string | null,
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }
+): ResponsesResponse {
+  let status: ResponsesResponse["status"] = "completed";
+  let incompleteDetails: ResponsesResponse["incomplete_details"] = null;
+
+  if (finishReason === "length") {
+    status = "incomplete";
+    incompleteDetails = { reason: "max_output_tokens" };
+  } else if (finishReason === "content_filter") {
+    status = "incomplete";
+    incompleteDetails = { reason: "content_filter" };
+  }
+
+  const response: ResponsesResponse = {
+    id: responseId,
+    object: "response",
+    created_at: createdAt,
+    status,
+    model: request.model,
+    output,
+    previous_response_id: request.previous_response_id || null,
+    incomplete_details: incompleteDetails,
+  };
+
+  if (usage) {
+    const inputTokens = usage.prompt_tokens || 0;
+    const outputTokens = usage.completion_tokens || 0;
+    response.usage = {
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      total_tokens: usage.total_tokens || inputTokens + outputTokens,
+    };
+  }
+
+  return response;
+}
+
+/**
+ * OpenAI 聊天完成响应转 Responses 响应
+ */
+export function translateChatToResponses(
+  chatResponse: ChatCompletionResponse,
+  request: ResponsesRequest,
+  responseId: string
+): ResponsesResponse {
+  const choice = chatResponse.choices?.[0];
+  const message = choice?.message;
+  const output: ResponsesItem[] = [];
+
+  if (message?.reasoning_content) {
+    output.push({
+      type: "reasoning",
+      id: generateItemId("rs"),
+      summary: [{ type: "summary_text", text: message.reasoning_content }],
+    });
+  }
+
+  if (typeof message?.content === "string" && message.content) {
+    output.push({
+      type: "message",
+      id: generateItemId("msg"),
+      role: "assistant",
+      status: "completed",
+      content: [{ type: "output_text", text: message.content, annotations: [] }],
+    });
+  }
+
+  for (const toolCall of message?.tool_calls || []) {
+    output.push({
+      type: "function_call",
+      id: generateItemId("fc"),
+      call_id: toolCall.id,
+      name: toolCall.function.name,
+      arguments: toolCall.function.arguments,
+      status: "completed",
+    });
+  }
+
+  return buildResponseObject(
+    responseId,
+    request,
+    chatResponse.created || Math.floor(Date.now() / 1000),
+    output,
+    choice?.finish_reason || null,
+    chatResponse.usage
+  );
+}
+
+/**
+ * 流式输出项状态
+ */
+interface StreamItemState {
+  kind: "reasoning" | "message" | "function_call";
+  item: ResponsesItem;
+  index: number;
+  text: string;
+  toolKey?: string | null;
+}
+
+/**
+ * 将 OpenAI chat.completion.chunk 流转换为 Responses 事件流
+ * @param onComplete 流结束时回调输出项，用于保存历史
+ */
+export function createResponsesStream(
+  chatResponse: Response,
+  request: ResponsesRequest,
+  responseId: string,
+  onComplete: (output: ResponsesItem[]) => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const createdAt = Math.floor(Date.now() / 1000);
+  // 客户端取消读取时取消内部聊天响应（进而中止上游请求）
+  const upstreamAbort = new AbortController();
+
+  return new ReadableStream({
+    async start(controller) {
+      let sequence = 0;
+      const send = (type: string, data: Record<string, unknown>) => {
+        const payload = { type, sequence_number: sequence++, ...data };
+        controller.enqueue(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`));
+      };
+
+      const output: ResponsesItem[] = [];
+      // 在闭包中修改，需显式声明类型以避免被收窄为 null
+      let current = null as StreamItemState | null;
+      let finishReason: string | null = null;
+      let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
+
+      const closeCurrent = () => {
+        if (!current) return;
+        const { kind, item, index, text } = current;
+        const base = { item_id: item.id, output_index: index };
+
+        if (kind === "reasoning") {
+          item.summary = [{ type: "summary_text", text }];
+          send("response.reasoning_summary_text.done", { ...base, summary_index: 0, text });
+          send("response.reasoning_summary_part.done", {
+            ...base,
+            summary_index: 0,
+            part: { type: "summary_text", text },
+          });
+        } else if (kind === "message") {
+          const part = { type: "output_text" as const, text, annotations: [] };
+          item.content = [part];
+          item.status = "completed";
+          send("response.output_text.done", { ...base, content_index: 0, text });
+          send("response.content_part.done", { ...base, content_index: 0, part });
+        } else {
+          item.arguments = text;
+          item.status = "completed";
+          send("response.function_call_arguments.done", { ...base, arguments: text });
+        }
+
+        send("response.output_item.done", { output_index: index, item });
+        current = null;
+      };
+
+      const openItem = (kind: "reasoning" | "message" | "function_call", item: ResponsesItem) => {
+        closeCurrent();
+        output.push(item);
+        const index = output.length - 1;
+        const state: StreamItemState = { kind, item, index, text: "" };
+        current = state;
+        send("response.output_item.added", { output_index: index, item });
+
+        if (kind === "message") {
+          send("response.content_part.added", {
+            item_id: item.id,
+            output_index: index,
+            content_index: 0,
+            part: { type: "output_text", text: "", annotations: [] },
+          });
+        } else if (kind === "reasoning") {
+          send("response.reasoning_summary_part.added", {
+            item_id: item.id,
+            output_index: index,
+            summary_index: 0,
+            part: { type: "summary_text", text: "" },
+          });
+        }
+        return state;
+      };
+
+      const initial = buildResponseObject(responseId, request, createdAt, [], null);
+      initial.status = "in_progress";
+      send("response.created", { response: initial });
+      send("response.in_progress", { response: initial });
+
+      try {
+        for await (const data of readSSEStream(chatResponse, upstreamAbort.signal)) {
+          let chunk: Record<string, unknown>;
+          try {
+            chunk = JSON.parse(data);
+          } catch {
+            logger.debug(`Skipping unparsable chunk: ${data}`);
+            continue;
+          }
+
+          if (chunk.error) {
+            const error = chunk.error as { message?: string; type?: string };
+            send("error", { code: error.type || "server_error", message: error.message || "Upstream stream error", param: null });
+            controller.close();
+            return;
+          }
+
+          if (chunk.usage) {
+            usage = chunk.usage as typeof usage;
+          }
+
+          const choices = chunk.choices as Array<{
+            delta?: { content?: string | null; reasoning_content?: string | null; tool_calls?: StreamToolCallDelta[] };
+            finish_reason?: string | null;
+          }> | undefined;
+          const choice = choices?.[0];
+          if (!choice) continue;
+
+          const delta = choice.delta || {};
+
+          if (delta.reasoning_content) {
+            const state = current?.kind === "reasoning"
+              ? current
+              : openItem("reasoning", { type: "reasoning", id: generateItemId("rs"), summary: [] });
+            state.text += delta.reasoning_content;
+            send("response.reasoning_summary_text.delta", {
+              item_id: state.item.id,
+              output_index: state.index,
+              summary_index: 0,
+              delta: delta.reasoning_content,
+            });
+          }
+
+          if (delta.content) {
+            const state = current?.kind === "message"
+              ? current
+              : openItem("message", {
+                type: "message",
+                id: generateItemId("msg"),
+                role: "assistant",
+                status: "in_progress",
+                content: [],
+              });
+            state.text += delta.content;
+            send("response.output_text.delta", {
+              item_id: state.item.id,
+              output_index: state.index,
+              content_index: 0,
+              delta: delta.content,
+            });
+          }
+
+          for (const toolCall of delta.tool_calls || []) {
+            // 带 index 的增量按 index 归并，否则按 id 区分
+            const key: string | null = toolCall.index !== undefined
+              ? `index-${toolCall.index}`
+              : toolCall.id || current?.toolKey || null;
+
+            let state = current;
+            if (!state || state.kind !== "function_call" || state.toolKey !== key) {
+              state = openItem("function_call", {
+                type: "function_call",
+                id: generateItemId("fc"),
+                call_id: toolCall.id || generateItemId("call"),
+                name: toolCall.function?.name || "",
+                arguments: "",
+                status: "in_progress",
+              });
+              state.toolKey = key;
+            }
+
+            if (toolCall.function?.arguments) {
+              state.text += toolCall.function.arguments;
+              send("response.function_call_arguments.delta", {
+                item_id: state.item.id,
+                output_index: state.index,
+                delta: toolCall.function.arguments,
+              });
+            }
+          }
+
+          if (choice.finish_reason) {
+            finishReason = choice.finish_reason;
+          }
+        }
+
+        // 客户端已取消读取，不再发送结束事件
+        if (upstreamAbort.signal.aborted) return;
+
+        closeCurrent();
+        const finalResponse = buildResponseObject(responseId, request, createdAt, output, finishReason, usage);
+        send(
+          finalResponse.status === "completed" ? "response.completed" : "response.incomplete",
+          { response: finalResponse }
+        );
+        onComplete(output);
+        controller.close();
+      } catch (error) {
+        if (upstreamAbort.signal.aborted) return;
+
+        logger.error(`Responses stream transform error: ${error}`);
+        send("error", { code: "server_error", message: String(error), param: null });
+        controller.close();
+      }
+    },
+    cancel(reason) {
+      upstreamAbort.abort(reason);
+    },
+  });
+}
+
+/**
+ * 透传 Responses 事件流，同时捕获最终响应
+ * 用于 Codex 原生 Responses 流的历史保存
+ */
+export function tapResponsesStream(
+  body: ReadableStream<Uint8Array>,
+  onCompleted: (response: ResponsesResponse) => void
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        try {
+          const event = JSON.parse(line.slice(5).trim());
+          if ((event.type === "response.completed" || event.type === "response.incomplete") && event.response) {
+            onCompleted(event.response);
+          }
+        } catch {
+          // 忽略无法解析的行
+        }
+      }
+    },
+  }));
+}
\ No newline at end of file
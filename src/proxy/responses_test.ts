@@ -0,0 +1,272 @@
+import { assert, assertEquals, assertThrows } from "@std/assert";
+import { loadConfig } from "../config.ts";
+import type { ChatCompletionResponse, ResponsesItem, ResponsesRequest } from "../types.ts";
+import { InvalidRequestError } from "../utils/http.ts";
+import {
+  createResponsesStream,
+  normalizeResponsesInput,
+  prepareHistoryForReplay,
+  ResponsesStore,
+  tapResponsesStream,
+  translateChatToResponses,
+  translateResponsesToChat,
+} from "./responses.ts";
+
+await loadConfig();
+
+/**
+ * 只有一条文本输入的 Responses 请求转换结果
+ */
+function translate(request: Partial<ResponsesRequest>) {
+  const body = { model: "gemini-2.5-flash", input: "hi", ...request } as ResponsesRequest;
+  return translateResponsesToChat(body, normalizeResponsesInput(body.input));
+}
+
+/**
+ * 只有一个 choice 的 chat.completion.chunk
+ */
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null) {
+  return {
+    id: "chatcmpl-1",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "gemini-2.5-flash",
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  };
+}
+
+/**
+ * 由 chat.completion.chunk 列表构造 SSE 响应
+ */
+function chunkResponse(chunks: unknown[]): Response {
+  const body = chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`).join("") + "data: [DONE]\n\n";
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+/**
+ * 读取 Responses SSE 流中的全部事件数据
+ */
+async function readResponsesEvents(stream: ReadableStream<Uint8Array>): Promise<Array<Record<string, unknown>>> {
+  const text = await new Response(stream).text();
+  return text
+    .split("\n\n")
+    .filter(Boolean)
+    .map((event) => JSON.parse(event.split("\n").find((line) => line.startsWith("data: "))!.slice(6)));
+}
+
+Deno.test("normalizeResponsesInput - wraps string input and defaults item type to message", () => {
+  assertEquals(normalizeResponsesInput("hi"), [
+    { type: "message", role: "user", content: [{ type: "input_text", text: "hi" }] },
+  ]);
+  assertEquals(normalizeResponsesInput([{ role: "user", content: "hi" }]), [{ type: "message", role: "user", content: "hi" }]);
+});
+
+Deno.test("prepareHistoryForReplay - drops item ids and reasoning without encrypted content", () => {
+  const items: ResponsesItem[] = [
+    { type: "message", id: "msg_1", role: "user", content: "hi" },
+    { type: "reasoning", id: "rs_1", summary: [] },
+    { type: "reasoning", id: "rs_2", summary: [], encrypted_content: "enc" },
+    { type: "function_call", id: "fc_1", call_id: "call_1", name: "f", arguments: "{}" },
+  ];
+
+  assertEquals(prepareHistoryForReplay(items), [
+    { type: "message", role: "user", content: "hi" },
+    { type: "reasoning", summary: [], encrypted_content: "enc" },
+    { type: "function_call", call_id: "call_1", name: "f", arguments: "{}" },
+  ]);
+});
+
+Deno.test("ResponsesStore - evicts the oldest entries beyond capacity", () => {
+  const store = new ResponsesStore(2);
+  for (const id of ["resp_1", "resp_2", "resp_3"]) {
+    store.save(id, [{ type: "message", role: "user", content: id }]);
+  }
+
+  assertEquals(store.getHistory("resp_1"), null);
+  assertEquals(store.getHistory("resp_3"), [{ type: "message", role: "user", content: "resp_3" }]);
+});
+
+Deno.test("translateResponsesToChat - translates instructions, items, tools and options", () => {
+  const request = translate({
+    instructions: "Be brief.",
+    input: [
+      { type: "message", role: "developer", content: "Use tools." },
+      { type: "message", role: "user", content: [{ type: "input_text", text: "Weather?" }] },
+      { type: "reasoning", summary: [{ type: "summary_text", text: "thinking" }] },
+      { type: "function_call", call_id: "call_1", name: "get_weather", arguments: '{"city":"Paris"}' },
+      { type: "function_call", call_id: "call_2", name: "get_time", arguments: "{}" },
+      { type: "function_call_output", call_id: "call_1", output: "Sunny" },
+      {
+        type: "message",
+        role: "user",
+        content: [{ type: "input_text", text: "Look" }, { type: "input_image", image_url: "https://example.com/a.png" }],
+      },
+    ],
+    stream: true,
+    max_output_tokens: 100,
+    reasoning: { effort: "low" },
+    tools: [{ type: "function", name: "get_weather", parameters: { type: "object" } }, { type: "web_search" }],
+    tool_choice: { type: "function", name: "get_weather" },
+  });
+
+  assertEquals(request.messages, [
+    { role: "system", content: "Be brief." },
+    { role: "system", content: "Use tools." },
+    { role: "user", content: "Weather?" },
+    {
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        { id: "call_1", type: "function", function: { name: "get_weather", arguments: '{"city":"Paris"}' } },
+        { id: "call_2", type: "function", function: { name: "get_time", arguments: "{}" } },
+      ],
+    },
+    { role: "tool", tool_call_id: "call_1", content: "Sunny" },
+    {
+      role: "user",
+      content: [
+        { type: "text", text: "Look" },
+        { type: "image_url", image_url: { url: "https://example.com/a.png" } },
+      ],
+    },
+  ]);
+  assertEquals(request.max_tokens, 100);
+  assertEquals(request.reasoning_effort, "low");
+  assertEquals(request.stream_options, { include_usage: true });
+  assertEquals(request.tools, [{ type: "function", function: { name: "get_weather", parameters: { type: "object" } } }]);
+  assertEquals(request.tool_choice, { type: "function", function: { name: "get_weather" } });
+});
+
+Deno.test("translateChatToResponses - builds output items, usage and status", () => {
+  const chatResponse = (finishReason: ChatCompletionResponse["choices"][number]["finish_reason"]): ChatCompletionResponse => ({
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 1,
+    model: "gemini-2.5-flash",
+    choices: [{
+      index: 0,
+      message: {
+        role: "assistant",
+        content: "Checking.",
+        reasoning_content: "thinking",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "get_weather", arguments: "{}" } }],
+      },
+      finish_reason: finishReason,
+    }],
+    usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  });
+  const request = { model: "gemini-2.5-flash", input: "hi", previous_response_id: "resp_0" } as ResponsesRequest;
+
+  const response = translateChatToResponses(chatResponse("tool_calls"), request, "resp_1");
+  assertEquals(response.output.map((item) => item.type), ["reasoning", "message", "function_call"]);
+  assertEquals(response.output[1].content, [{ type: "output_text", text: "Checking.", annotations: [] }]);
+  assertEquals(response.output[2].call_id, "call_1");
+  assertEquals(response.previous_response_id, "resp_0");
+  assertEquals(response.usage, { input_tokens: 10, output_tokens: 5, total_tokens: 15 });
+
+  const cases = [
+    { finishReason: "stop" as const, status: "completed", details: null },
+    { finishReason: "length" as const, status: "incomplete", details: { reason: "max_output_tokens" } },
+    { finishReason: "content_filter" as const, status: "incomplete", details: { reason: "content_filter" } },
+  ];
+  for (const { finishReason, status, details } of cases) {
+    const result = translateChatToResponses(chatResponse(finishReason), request, "resp_1");
+    assertEquals([result.status, result.incomplete_details], [status, details], finishReason);
+  }
+});
+
+Deno.test("createResponsesStream - emits item events and completes with the saved output", async () => {
+  let saved: ResponsesItem[] = [];
+  const events = await readResponsesEvents(createResponsesStream(
+    chunkResponse([
+      chunk({ role: "assistant", reasoning_content: "Hmm." }),
+      chunk({ content: "Hel" }),
+      chunk({ content: "lo" }),
+      chunk({ tool_calls: [{ index: 0, id: "call_1", type: "function", function: { name: "f", arguments: '{"a"' } }] }),
+      chunk({ tool_calls: [{ index: 0, function: { arguments: ":1}" } }] }),
+      chunk({}, "tool_calls"),
+      { id: "chatcmpl-1", choices: [], usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 } },
+    ]),
+    { model: "gemini-2.5-flash", input: "hi" } as ResponsesRequest,
+    "resp_1",
+    (output) => saved = output
+  ));
+
+  assertEquals(events.map((event) => event.sequence_number), events.map((_, i) => i));
+  assertEquals(events.filter((event) => event.type === "response.output_item.done").map((event) => event.output_index), [0, 1, 2]);
+  assertEquals(
+    events.filter((event) => event.type === "response.output_text.delta").map((event) => event.delta),
+    ["Hel", "lo"]
+  );
+  assert(events.some((event) => event.type === "response.function_call_arguments.done" && event.arguments === '{"a":1}'));
+
+  const completed = events.at(-1)!;
+  assertEquals(completed.type, "response.completed");
+  const response = completed.response as { output: ResponsesItem[]; usage: unknown };
+  assertEquals(response.usage, { input_tokens: 10, output_tokens: 5, total_tokens: 15 });
+  assertEquals(response.output, saved);
+  assertEquals(saved.map((item) => item.type), ["reasoning", "message", "function_call"]);
+  assertEquals(saved[1].content, [{ type: "output_text", text: "Hello", annotations: [] }]);
+  assertEquals(saved[2].arguments, '{"a":1}');
+});
+
+Deno.test("createResponsesStream - an error chunk ends the stream with an error event", async () => {
+  let completed = false;
+  const events = await readResponsesEvents(createResponsesStream(
+    chunkResponse([chunk({ content: "Hel" }), { error: { message: "Upstream stream failed", type: "upstream_error" } }]),
+    { model: "gemini-2.5-flash", input: "hi" } as ResponsesRequest,
+    "resp_1",
+    () => completed = true
+  ));
+
+  const error = events.at(-1)!;
+  assertEquals([error.type, error.code, error.message], ["error", "upstream_error", "Upstream stream failed"]);
+  assertEquals(completed, false);
+});
+
+Deno.test("tapResponsesStream - passes events through and captures the final response", async () => {
+  const final = { id: "resp_1", object: "response", status: "completed", output: [] };
+  const body = [
+    `data: ${JSON.stringify({ type: "response.created" })}`,
+    `data: ${JSON.stringify({ type: "response.completed", response: final })}`,
+    "",
+  ].join("\n\n");
+  let captured: unknown = null;
+
+  const text = await new Response(
+    tapResponsesStream(new Response(body).body!, (response) => captured = response)
+  ).text();
+  assertEquals(text, body);
+  assertEquals(captured, final);
+});
+
+Deno.test("translateResponsesToChat - maps text.format to response_format", () => {
+  const schema = { type: "object", properties: { name: { type: "string" } } };
+  const cases: Array<{ name: string; text: ResponsesRequest["text"]; expected: unknown }> = [
+    { name: "no text", text: undefined, expected: undefined },
+    { name: "text", text: { format: { type: "text" } }, expected: undefined },
+    { name: "json_object", text: { format: { type: "json_object" } }, expected: { type: "json_object" } },
+    {
+      name: "json_schema",
+      text: { format: { type: "json_schema", name: "person", schema, strict: true } },
+      expected: { type: "json_schema", json_schema: { name: "person", schema, strict: true } },
+    },
+    {
+      name: "json_schema without name",
+      text: { format: { type: "json_schema", schema } },
+      expected: { type: "json_schema", json_schema: { name: "response", schema } },
+    },
+  ];
+
+  for (const { name, text, expected } of cases) {
+    assertEquals(translate({ text }).response_format, expected, name);
+  }
+});
+
+Deno.test("translateResponsesToChat - rejects unsupported text.format types", () => {
+  assertThrows(
+    () => translate({ text: { format: { type: "xml" } as unknown as { type: "text" } } }),
+    InvalidRequestError,
+    "Unsupported text.format.type 'xml'"
+  );
+});
\ No newline at end of file
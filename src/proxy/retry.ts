@@ -0,0 +1,80 @@
+import { InvalidRequestError, log } from "../utils/http.ts";
+
+// 简单的logger封装
+const logger = {
+  info: (msg: string) => log("info", `[retry] ${msg}`),
+  error: (msg: string) => log("error", `[retry] ${msg}`),
+};
+
+/**
+ * 上游错误（UpstreamError、CodexUpstreamError）的公共接口
+ */
+export interface RetryableUpstreamError extends Error {
+  isRetryable(): boolean;
+  isAuthError(): boolean;
+}
+
+/**
+ * 账号轮换重试选项
+ */
+export interface AccountRetryOptions<T extends { email: string; account: { id: string } }> {
+  // 日志和最终错误信息中的请求名称
+  label: string;
+  maxRetries: number;
+  // 获取账号 token，rotate 为 true 时强制轮换到下一个账号
+  getToken: (rotate: boolean) => Promise<T>;
+  // 标记账号失败
+  markFailed: (accountId: string) => void;
+  // 上游错误类型，用于判断认证错误和可重试错误
+  upstreamError: new (...args: never[]) => RetryableUpstreamError;
+  // 客户端请求的中止信号，断开后不再重试
+  signal?: AbortSignal;
+}
+
+/**
+ * 带账号轮换的请求重试
+ * 每次尝试使用一个账号（重试时强制轮换）；认证错误标记账号失败后换账号重试，
+ * 客户端断开、请求参数错误和不可重试的上游错误直接抛出
+ */
+export async function withAccountRetry<T extends { email: string; account: { id: string } }, R>(
+  options: AccountRetryOptions<T>,
+  attempt: (tokenInfo: T, retry: number) => Promise<R>
+): Promise<R> {
+  let lastError: Error | null = null;
+
+  for (let retry = 0; retry < options.maxRetries; retry++) {
+    let tokenInfo: T | null = null;
+    try {
+      tokenInfo = await options.getToken(retry > 0);
+      return await attempt(tokenInfo, retry);
+    } catch (error) {
+      lastError = error as Error;
+
+      // 客户端已断开，不再重试
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      logger.error(`${options.label} attempt ${retry + 1} failed: ${error}`);
+
+      // 请求参数错误无需重试
+      if (error instanceof InvalidRequestError) {
+        throw error;
+      }
+
+      if (error instanceof options.upstreamError) {
+        // 认证错误：标记账号失败并尝试下一个
+        if (error.isAuthError()) {
+          if (tokenInfo) {
+            options.markFailed(tokenInfo.account.id);
+            logger.info(`Marked account as failed: ${tokenInfo.email}`);
+          }
+        } else if (!error.isRetryable()) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  throw lastError || new Error(`${options.label} failed after all retries`);
+}
\ No newline at end of file
@@ -0,0 +1,503 @@
+/**
+ * JSON Schema 工具
+ * 负责把 OpenAI 请求中的 JSON Schema（工具参数、结构化输出）转换为上游可接受的形式，并校验模型输出
+ */
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * 引用展开的最大深度（递归结构超出后退化为任意对象）
+ */
+const MAX_REF_DEPTH = 8;
+
+/**
+ * Gemini responseSchema 支持的字段
+ */
+const GEMINI_SCHEMA_KEYS = new Set([
+  "type",
+  "format",
+  "title",
+  "description",
+  "nullable",
+  "enum",
+  "items",
+  "minItems",
+  "maxItems",
+  "properties",
+  "required",
+  "minProperties",
+  "maxProperties",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "minimum",
+  "maximum",
+  "anyOf",
+  "propertyOrdering",
+  "default",
+]);
+
+/**
+ * 是否为对象
+ */
+function isObject(value: unknown): value is JsonSchema {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 解析本地引用（#/$defs/X、#/definitions/X）
+ */
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | undefined {
+  if (!ref.startsWith("#/")) return undefined;
+
+  let current: unknown = root;
+  for (const segment of ref.slice(2).split("/")) {
+    const key = segment.replace(/~1/g, "/").replace(/~0/g, "~");
+    if (!isObject(current)) return undefined;
+    current = current[key];
+  }
+  return isObject(current) ? current : undefined;
+}
+
+/**
+ * 展开 $ref 引用，移除 $defs / definitions
+ */
+export function inlineSchemaRefs(schema: JsonSchema, root: JsonSchema = schema, depth = 0): JsonSchema {
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(schema.$ref, root);
+    const { $ref: _ref, ...siblings } = schema;
+    if (!target || depth >= MAX_REF_DEPTH) {
+      return { type: "object", ...siblings };
+    }
+    return inlineSchemaRefs({ ...target, ...siblings }, root, depth + 1);
+  }
+
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === "$defs" || key === "definitions") continue;
+
+    if (key === "properties" && isObject(value)) {
+      const properties: JsonSchema = {};
+      for (const [name, property] of Object.entries(value)) {
+        properties[name] = isObject(property) ? inlineSchemaRefs(property, root, depth) : property;
+      }
+      result[key] = properties;
+    } else if (Array.isArray(value)) {
+      result[key] = value.map((item) => isObject(item) ? inlineSchemaRefs(item, root, depth) : item);
+    } else if (isObject(value) && (key === "items" || key === "additionalProperties" || key === "not")) {
+      result[key] = inlineSchemaRefs(value, root, depth);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+// ==================== Schema 清理 ====================
+
+/**
+ * 目标模型族
+ * gemini: Gemini 原生模型（OpenAPI 子集）
+ * claude: 通过 Antigravity 调用的 claude-* 模型（标准 JSON Schema）
+ */
+export type SchemaFamily = "gemini" | "claude";
+
+/**
+ * Schema 清理结果
+ */
+export interface SanitizeResult {
+  schema: JsonSchema;
+  // 被删除或改写的字段路径，例如 "$.properties.url.format"
+  dropped: string[];
+}
+
+/**
+ * Gemini 支持的 format（按类型）
+ */
+const GEMINI_FORMATS: Record<string, string[]> = {
+  string: ["enum", "date-time"],
+  number: ["float", "double"],
+  integer: ["int32", "int64"],
+};
+
+/**
+ * Claude 接受的标准 JSON Schema 关键字
+ */
+const CLAUDE_SCHEMA_KEYS = new Set([
+  "type",
+  "title",
+  "description",
+  "default",
+  "examples",
+  "enum",
+  "const",
+  "format",
+  "pattern",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "items",
+  "prefixItems",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "properties",
+  "required",
+  "additionalProperties",
+  "patternProperties",
+  "minProperties",
+  "maxProperties",
+  "anyOf",
+  "oneOf",
+  "allOf",
+  "not",
+]);
+
+/**
+ * 合并 allOf 分支
+ */
+function mergeAllOf(schema: JsonSchema): JsonSchema {
+  if (!Array.isArray(schema.allOf)) return schema;
+
+  const { allOf, ...rest } = schema;
+  let merged: JsonSchema = rest;
+  for (const part of allOf as JsonSchema[]) {
+    if (!isObject(part)) continue;
+    merged = {
+      ...part,
+      ...merged,
+      properties: { ...(part.properties as JsonSchema), ...(merged.properties as JsonSchema) },
+      required: [...((part.required as string[]) || []), ...((merged.required as string[]) || [])],
+    };
+  }
+  return merged;
+}
+
+/**
+ * 转换为 Gemini 可接受的 schema（输入应已展开 $ref）
+ */
+function sanitizeForGemini(schema: JsonSchema, path: string, dropped: string[]): JsonSchema {
+  let source = mergeAllOf(schema);
+
+  // anyOf / oneOf 中的 null 分支转换为 nullable，只剩一个分支时直接展开
+  const variants = (source.anyOf || source.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants)) {
+    const { anyOf: _anyOf, oneOf: _oneOf, ...rest } = source;
+    const nonNull = variants.filter((v) => isObject(v) && v.type !== "null");
+    const nullable = nonNull.length < variants.length;
+
+    if (nonNull.length === 1) {
+      return sanitizeForGemini(
+        { ...rest, ...nonNull[0], ...(nullable ? { nullable: true } : {}) },
+        path,
+        dropped
+      );
+    }
+    source = { ...rest, anyOf: nonNull };
+    if (nullable) source.nullable = true;
+  }
+
+  // type 数组（如 ["string", "null"]）
+  if (Array.isArray(source.type)) {
+    const types = (source.type as string[]).filter((t) => t !== "null");
+    if (types.length < (source.type as string[]).length) source.nullable = true;
+    if (types.length === 1) {
+      source.type = types[0];
+    } else {
+      delete source.type;
+      source.anyOf = types.map((t) => ({ type: t }));
+    }
+  }
+
+  // const 转换为单值 enum
+  if (source.const !== undefined) {
+    if (!source.type) source.type = jsonTypeOf(source.const);
+    source.enum = [source.const];
+    delete source.const;
+  }
+
+  // Gemini 只接受字符串枚举，其他类型的枚举值写入描述
+  if (Array.isArray(source.enum) && source.enum.some((v) => typeof v !== "string")) {
+    const values = (source.enum as unknown[]).map((v) => JSON.stringify(v)).join(", ");
+    source.description = [source.description, `Allowed values: ${values}`].filter(Boolean).join(" ");
+    delete source.enum;
+    dropped.push(`${path}.enum`);
+  }
+  if (Array.isArray(source.enum) && !source.type) {
+    source.type = "string";
+  }
+
+  // exclusiveMinimum / exclusiveMaximum 近似为闭区间
+  for (const [exclusive, inclusive] of [["exclusiveMinimum", "minimum"], ["exclusiveMaximum", "maximum"]]) {
+    if (typeof source[exclusive] === "number" && source[inclusive] === undefined) {
+      source[inclusive] = source[exclusive];
+      dropped.push(`${path}.${exclusive}`);
+      delete source[exclusive];
+    }
+  }
+
+  // 仅保留 Gemini 支持的 format
+  if (typeof source.format === "string") {
+    const allowed = GEMINI_FORMATS[source.type as string] || [];
+    if (!allowed.includes(source.format)) {
+      dropped.push(`${path}.format`);
+      delete source.format;
+    }
+  }
+
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) {
+      // $schema、$id 等元数据直接删除，不记录
+      if (!key.startsWith("$")) dropped.push(`${path}.${key}`);
+      continue;
+    }
+
+    switch (key) {
+      case "properties": {
+        const properties: JsonSchema = {};
+        for (const [name, property] of Object.entries(value as JsonSchema)) {
+          if (isObject(property)) {
+            properties[name] = sanitizeForGemini(property, `${path}.properties.${name}`, dropped);
+          }
+        }
+        result.properties = properties;
+        break;
+      }
+      case "items":
+        if (isObject(value)) result.items = sanitizeForGemini(value, `${path}.items`, dropped);
+        break;
+      case "anyOf":
+        result.anyOf = (value as JsonSchema[])
+          .filter(isObject)
+          .map((v, i) => sanitizeForGemini(v, `${path}.anyOf[${i}]`, dropped));
+        break;
+      case "required":
+        result.required = [...new Set(value as string[])];
+        break;
+      default:
+        result[key] = value;
+    }
+  }
+
+  // 只保留已声明属性的 required
+  if (Array.isArray(result.required)) {
+    const properties = isObject(result.properties) ? result.properties : {};
+    result.required = (result.required as string[]).filter((name) => name in properties);
+    if ((result.required as string[]).length === 0) delete result.required;
+  }
+
+  return result;
+}
+
+/**
+ * 转换为 Claude 可接受的 schema（输入应已展开 $ref）
+ */
+function sanitizeForClaude(schema: JsonSchema, path: string, dropped: string[]): JsonSchema {
+  const source = { ...schema };
+
+  // OpenAPI 风格的 nullable 改写为 type 数组
+  if (source.nullable === true && typeof source.type === "string") {
+    source.type = [source.type, "null"];
+  }
+  delete source.nullable;
+
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(source)) {
+    if (!CLAUDE_SCHEMA_KEYS.has(key)) {
+      if (!key.startsWith("$")) dropped.push(`${path}.${key}`);
+      continue;
+    }
+
+    if ((key === "properties" || key === "patternProperties") && isObject(value)) {
+      const properties: JsonSchema = {};
+      for (const [name, property] of Object.entries(value)) {
+        properties[name] = isObject(property)
+          ? sanitizeForClaude(property, `${path}.${key}.${name}`, dropped)
+          : property;
+      }
+      result[key] = properties;
+    } else if ((key === "anyOf" || key === "oneOf" || key === "allOf" || key === "prefixItems") && Array.isArray(value)) {
+      result[key] = value.map((v, i) => isObject(v) ? sanitizeForClaude(v, `${path}.${key}[${i}]`, dropped) : v);
+    } else if ((key === "items" || key === "additionalProperties" || key === "not") && isObject(value)) {
+      result[key] = sanitizeForClaude(value, `${path}.${key}`, dropped);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 按目标模型族清理 JSON Schema
+ * 展开 $ref/$defs，改写或删除上游不支持的结构，并记录被删除的字段
+ */
+export function sanitizeSchema(schema: JsonSchema, family: SchemaFamily): SanitizeResult {
+  const dropped: string[] = [];
+  const inlined = inlineSchemaRefs(schema);
+  const sanitized = family === "gemini"
+    ? sanitizeForGemini(inlined, "$", dropped)
+    : sanitizeForClaude(inlined, "$", dropped);
+  return { schema: sanitized, dropped };
+}
+
+/**
+ * 根据上游模型名判断 schema 模型族
+ */
+export function getSchemaFamily(upstreamModel: string): SchemaFamily {
+  return upstreamModel.startsWith("claude") ? "claude" : "gemini";
+}
+
+/**
+ * 类型名转为大写（Gemini responseSchema 使用 OpenAPI 枚举值）
+ */
+function uppercaseTypes(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  if (typeof result.type === "string") result.type = result.type.toUpperCase();
+  if (isObject(result.properties)) {
+    result.properties = Object.fromEntries(
+      Object.entries(result.properties).map(([name, property]) => [name, uppercaseTypes(property as JsonSchema)])
+    );
+  }
+  if (isObject(result.items)) result.items = uppercaseTypes(result.items);
+  if (Array.isArray(result.anyOf)) result.anyOf = (result.anyOf as JsonSchema[]).map(uppercaseTypes);
+  return result;
+}
+
+/**
+ * JSON Schema 转 Gemini responseSchema
+ */
+export function toGeminiResponseSchema(schema: JsonSchema): JsonSchema {
+  return uppercaseTypes(sanitizeSchema(schema, "gemini").schema);
+}
+
+// ==================== 输出校验 ====================
+
+/**
+ * 获取 JSON 值的类型名
+ */
+function jsonTypeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+/**
+ * 检查值是否匹配类型
+ */
+function matchesType(value: unknown, type: string): boolean {
+  const actual = jsonTypeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+/**
+ * 按 JSON Schema 校验数据，返回错误列表（为空表示通过）
+ * 仅覆盖结构化输出常用的关键字
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type as string[] : [schema.type as string];
+    const allowNull = schema.nullable === true && value === null;
+    if (!allowNull && !types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" | ")}, got ${jsonTypeOf(value)}`];
+    }
+  }
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: expected constant ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    errors.push(`${path}: value is not one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  const variants = (schema.anyOf || schema.oneOf) as JsonSchema[] | undefined;
+  if (Array.isArray(variants) && !variants.some((v) => validateJsonSchema(value, v, path).length === 0)) {
+    errors.push(`${path}: value does not match any allowed schema`);
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const part of schema.allOf as JsonSchema[]) {
+      errors.push(...validateJsonSchema(value, part, path));
+    }
+  }
+
+  if (typeof value === "string") {
+    if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+      errors.push(`${path}: string shorter than ${schema.minLength}`);
+    }
+    if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+      errors.push(`${path}: string longer than ${schema.maxLength}`);
+    }
+  }
+
+  if (typeof value === "number") {
+    if (typeof schema.minimum === "number" && value < schema.minimum) {
+      errors.push(`${path}: value less than ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === "number" && value > schema.maximum) {
+      errors.push(`${path}: value greater than ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+      errors.push(`${path}: fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+      errors.push(`${path}: more than ${schema.maxItems} items`);
+    }
+    if (isObject(schema.items)) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items as JsonSchema, `${path}[${i}]`)));
+    }
+  }
+
+  if (isObject(value)) {
+    const properties = (schema.properties || {}) as Record<string, JsonSchema>;
+
+    for (const name of (schema.required as string[]) || []) {
+      if (!(name in value)) errors.push(`${path}: missing required property '${name}'`);
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (isObject(properties[name])) {
+        errors.push(...validateJsonSchema(propertyValue, properties[name], `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${name}'`);
+      } else if (isObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(propertyValue, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * 提取模型输出中的 JSON 文本（兼容模型把 JSON 包在 markdown 代码块中的情况）
+ */
+export function extractJsonOutput(text: string): string {
+  return text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+}
+
+/**
+ * 校验模型输出文本是否为符合 schema 的 JSON
+ */
+export function validateJsonOutput(text: string, schema: JsonSchema): string[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJsonOutput(text));
+  } catch (error) {
+    return [`output is not valid JSON: ${(error as Error).message}`];
+  }
+
+  return validateJsonSchema(value, inlineSchemaRefs(schema));
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { assertEquals } from "@std/assert";
+import { sanitizeSchema } from "./schema.ts";
+
+Deno.test("sanitizeSchema (gemini) - null variants become nullable", () => {
+  const { schema } = sanitizeSchema({
+    type: "object",
+    properties: {
+      name: { type: ["string", "null"] },
+      age: { anyOf: [{ type: "integer" }, { type: "null" }] },
+    },
+  }, "gemini");
+
+  assertEquals(schema, {
+    type: "object",
+    properties: {
+      name: { type: "string", nullable: true },
+      age: { type: "integer", nullable: true },
+    },
+  });
+});
+
+Deno.test("sanitizeSchema (gemini) - inlines $ref and drops unsupported keywords", () => {
+  const { schema, dropped } = sanitizeSchema({
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $defs: { Url: { type: "string", format: "uri" } },
+    type: "object",
+    properties: { link: { $ref: "#/$defs/Url" } },
+    required: ["link", "missing"],
+    additionalProperties: false,
+  }, "gemini");
+
+  assertEquals(schema, {
+    type: "object",
+    properties: { link: { type: "string" } },
+    required: ["link"],
+  });
+  assertEquals(dropped, ["$.properties.link.format", "$.additionalProperties"]);
+});
+
+Deno.test("sanitizeSchema (gemini) - const and non-string enums", () => {
+  const { schema, dropped } = sanitizeSchema({
+    type: "object",
+    properties: {
+      kind: { const: "fixed" },
+      level: { type: "integer", enum: [1, 2], description: "Level." },
+    },
+  }, "gemini");
+
+  assertEquals(schema, {
+    type: "object",
+    properties: {
+      kind: { type: "string", enum: ["fixed"] },
+      level: { type: "integer", description: "Level. Allowed values: 1, 2" },
+    },
+  });
+  assertEquals(dropped, ["$.properties.level.enum"]);
+});
+
+Deno.test("sanitizeSchema (claude) - keeps standard JSON Schema and rewrites nullable", () => {
+  const { schema, dropped } = sanitizeSchema({
+    $defs: { Tag: { type: "string", nullable: true } },
+    type: "object",
+    properties: {
+      tags: { type: "array", items: { $ref: "#/$defs/Tag" }, uniqueItems: true },
+      mode: { oneOf: [{ const: "a" }, { const: "b" }] },
+    },
+    additionalProperties: false,
+    propertyOrdering: ["tags", "mode"],
+  }, "claude");
+
+  assertEquals(schema, {
+    type: "object",
+    properties: {
+      tags: { type: "array", items: { type: ["string", "null"] }, uniqueItems: true },
+      mode: { oneOf: [{ const: "a" }, { const: "b" }] },
+    },
+    additionalProperties: false,
+  });
+  assertEquals(dropped, ["$.propertyOrdering"]);
+});
\ No newline at end of file
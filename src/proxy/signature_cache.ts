@@ -0,0 +1,148 @@
+import { log } from "../utils/http.ts";
+
+// 简单的logger封装
+const logger = {
+  debug: (msg: string) => log("debug", `[signature-cache] ${msg}`),
+};
+
+/**
+ * Gemini 官方提供的跳过签名校验的占位值
+ * 缺失真实签名（如会话来自其他客户端或缓存已过期）时使用
+ */
+export const SKIP_THOUGHT_SIGNATURE = "skip_thought_signature_validator";
+
+/**
+ * 单个会话的签名记录
+ */
+interface SessionSignatures {
+  toolCalls: Map<string, string>;
+  thoughts: Map<string, string>;
+  updatedAt: number;
+}
+
+/**
+ * 文本哈希（FNV-1a），用作思考内容的缓存键
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${(hash >>> 0).toString(16)}:${text.length}`;
+}
+
+/**
+ * thoughtSignature 会话缓存
+ * OpenAI 协议无法携带签名，按稳定的 sessionId 在服务端保存，
+ * 下一轮请求转换时自动回填到对应的 functionCall / thought 部分
+ */
+export class ThoughtSignatureCache {
+  private sessions: Map<string, SessionSignatures> = new Map();
+  private maxSessions: number;
+  private ttlMs: number;
+  private maxEntriesPerSession: number;
+
+  constructor(
+    maxSessions: number = 1000,
+    ttlMs: number = 2 * 60 * 60 * 1000,
+    maxEntriesPerSession: number = 200
+  ) {
+    this.maxSessions = maxSessions;
+    this.ttlMs = ttlMs;
+    this.maxEntriesPerSession = maxEntriesPerSession;
+  }
+
+  /**
+   * 写入会话内的签名记录，超出容量时淘汰最早写入的记录
+   */
+  private setEntry(entries: Map<string, string>, key: string, signature: string): void {
+    entries.delete(key);
+    entries.set(key, signature);
+    while (entries.size > this.maxEntriesPerSession) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) break;
+      entries.delete(oldest);
+    }
+  }
+
+  /**
+   * 获取会话记录，过期则删除
+   */
+  private getSession(sessionId: string): SessionSignatures | null {
+    const session = this.sessions.get(sessionId);
+    if (!session) return null;
+
+    if (Date.now() - session.updatedAt > this.ttlMs) {
+      this.sessions.delete(sessionId);
+      return null;
+    }
+
+    return session;
+  }
+
+  /**
+   * 获取或创建会话记录，并移动到最近使用位置
+   */
+  private touchSession(sessionId: string): SessionSignatures {
+    const session = this.getSession(sessionId) || {
+      toolCalls: new Map(),
+      thoughts: new Map(),
+      updatedAt: Date.now(),
+    };
+    session.updatedAt = Date.now();
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, session);
+
+    // 超出容量时淘汰最久未使用的会话
+    while (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest === undefined) break;
+      this.sessions.delete(oldest);
+    }
+
+    return session;
+  }
+
+  /**
+   * 保存工具调用签名
+   */
+  saveToolCall(sessionId: string, toolCallId: string, signature: string): void {
+    this.setEntry(this.touchSession(sessionId).toolCalls, toolCallId, signature);
+    logger.debug(`Saved signature for tool call ${toolCallId} (session ${sessionId})`);
+  }
+
+  /**
+   * 保存思考内容签名
+   */
+  saveThought(sessionId: string, thoughtText: string, signature: string): void {
+    this.setEntry(this.touchSession(sessionId).thoughts, hashText(thoughtText), signature);
+    logger.debug(`Saved signature for thought (session ${sessionId}, ${thoughtText.length} chars)`);
+  }
+
+  /**
+   * 查找工具调用签名
+   */
+  getToolCall(sessionId: string, toolCallId: string): string | undefined {
+    return this.getSession(sessionId)?.toolCalls.get(toolCallId);
+  }
+
+  /**
+   * 查找思考内容签名
+   */
+  getThought(sessionId: string, thoughtText: string): string | undefined {
+    return this.getSession(sessionId)?.thoughts.get(hashText(thoughtText));
+  }
+}
+
+let signatureCache: ThoughtSignatureCache | null = null;
+
+/**
+ * 获取签名缓存单例
+ */
+export function getSignatureCache(): ThoughtSignatureCache {
+  if (!signatureCache) {
+    signatureCache = new ThoughtSignatureCache();
+  }
+  return signatureCache;
+}
\ No newline at end of file
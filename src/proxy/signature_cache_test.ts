@@ -0,0 +1,38 @@
+import { assertEquals } from "@std/assert";
+import { loadConfig } from "../config.ts";
+import { ThoughtSignatureCache } from "./signature_cache.ts";
+
+await loadConfig();
+
+Deno.test("ThoughtSignatureCache - stores tool call and thought signatures per session", () => {
+  const cache = new ThoughtSignatureCache();
+  cache.saveToolCall("session-1", "call_1", "sig-tool");
+  cache.saveThought("session-1", "Let me think.", "sig-thought");
+
+  assertEquals(cache.getToolCall("session-1", "call_1"), "sig-tool");
+  assertEquals(cache.getThought("session-1", "Let me think."), "sig-thought");
+  assertEquals(cache.getThought("session-1", "Something else."), undefined);
+  assertEquals(cache.getToolCall("session-2", "call_1"), undefined);
+});
+
+Deno.test("ThoughtSignatureCache - evicts the least recently used sessions and oldest entries", () => {
+  const cache = new ThoughtSignatureCache(2, 60_000, 2);
+  cache.saveToolCall("session-1", "call_1", "sig-1");
+  cache.saveToolCall("session-1", "call_2", "sig-2");
+  cache.saveToolCall("session-1", "call_3", "sig-3");
+  assertEquals(cache.getToolCall("session-1", "call_1"), undefined);
+  assertEquals(cache.getToolCall("session-1", "call_3"), "sig-3");
+
+  cache.saveToolCall("session-2", "call_1", "sig-1");
+  cache.saveToolCall("session-1", "call_4", "sig-4");
+  cache.saveToolCall("session-3", "call_1", "sig-1");
+  assertEquals(cache.getToolCall("session-2", "call_1"), undefined);
+  assertEquals(cache.getToolCall("session-1", "call_4"), "sig-4");
+});
+
+Deno.test("ThoughtSignatureCache - expired sessions are dropped", () => {
+  // 负的有效期使记录立即过期
+  const cache = new ThoughtSignatureCache(10, -1);
+  cache.saveToolCall("session-1", "call_1", "sig-1");
+  assertEquals(cache.getToolCall("session-1", "call_1"), undefined);
+});
\ No newline at end of file
@@ -0,0 +1,54 @@
+/**
+ * 请求结果
+ * cancelled 为客户端断开或主动停止，单独计数，不计入失败
+ */
+export type RequestOutcome = "completed" | "failed" | "cancelled";
+
+/**
+ * 上游提供方
+ */
+export type RequestProvider = "antigravity" | "codex";
+
+/**
+ * 单个提供方的请求计数
+ */
+export type RequestOutcomeCounts = Record<RequestOutcome, number>;
+
+/**
+ * 请求统计（进程内，重启后清零）
+ */
+export class RequestStats {
+  private counts: Record<RequestProvider, RequestOutcomeCounts> = {
+    antigravity: { completed: 0, failed: 0, cancelled: 0 },
+    codex: { completed: 0, failed: 0, cancelled: 0 },
+  };
+
+  /**
+   * 记录一次请求结果
+   */
+  record(provider: RequestProvider, outcome: RequestOutcome): void {
+    this.counts[provider][outcome]++;
+  }
+
+  /**
+   * 获取统计信息
+   */
+  getStats(): Record<RequestProvider, RequestOutcomeCounts> {
+    return {
+      antigravity: { ...this.counts.antigravity },
+      codex: { ...this.counts.codex },
+    };
+  }
+}
+
+let requestStats: RequestStats | null = null;
+
+/**
+ * 获取请求统计单例
+ */
+export function getRequestStats(): RequestStats {
+  if (!requestStats) {
+    requestStats = new RequestStats();
+  }
+  return requestStats;
+}
\ No newline at end of file
@@ -4,49 +4,151 @@ import type {
   ContentPart,
   GeminiContent,
   GeminiPart,
+  GeminiGenerateContentRequest,
   AntigravityRequest,
   ChatCompletionResponse,
+  ChatCompletionChoice,
   ChatCompletionChunk,
+  ChatCompletionDelta,
+  ChatCompletionChunkChoice,
+  ChatImage,
+  ImagesConfig,
   AntigravityResponse,
+  GeminiUsageMetadata,
   Tool,
   ToolCall,
+  UsageInfo,
 } from "../types.ts";
 import { generateRequestId, generateProjectId, generateStableSessionId } from "../utils/crypto.ts";
-import { getUpstreamModelName } from "../config.ts";
+import { getAntigravityModel, getConfig, getUpstreamModelName, parseModelSuffix } from "../config.ts";
+import { getSignatureCache, SKIP_THOUGHT_SIGNATURE } from "./signature_cache.ts";
+import { resolveFilePart, resolveInputAudio, resolveMediaUrl } from "./media.ts";
+import { getSchemaFamily, sanitizeSchema, toGeminiResponseSchema } from "./schema.ts";
+import { log } from "../utils/http.ts";
+
+// 简单的logger封装
+const logger = {
+  info: (msg: string) => log("info", `[translator] ${msg}`),
+  debug: (msg: string) => log("debug", `[translator] ${msg}`),
+};
+
+/**
+ * 是否为图片生成模型
+ */
+export function isImageModel(model: string): boolean {
+  return getUpstreamModelName(parseModelSuffix(model).model).includes("image");
+}
+
+/**
+ * 生成的图片（inlineData）转 data URL
+ */
+function inlineDataToImage(inlineData: { mimeType: string; data: string }): ChatImage {
+  return { type: "image_url", image_url: { url: `data:${inlineData.mimeType};base64,${inlineData.data}` } };
+}
+
+/**
+ * 生成的图片转 markdown
+ */
+function formatImageMarkdown(images: ChatImage[]): string {
+  return images.map((image) => `![image](${image.image_url.url})`).join("\n\n");
+}
+
+/**
+ * 拆分 assistant 文本中以 markdown 嵌入的 data URL 图片
+ * 之前以 markdown 方式返回的生成图片需作为 inlineData 回传，便于多轮编辑
+ */
+async function splitMarkdownImages(text: string): Promise<GeminiPart[]> {
+  const parts: GeminiPart[] = [];
+  const pattern = /!\[[^\]]*\]\((data:image\/[^;)]+;base64,[^)]+)\)/g;
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const before = text.slice(lastIndex, match.index).trim();
+    if (before) parts.push({ text: before });
+    parts.push({ inlineData: await resolveMediaUrl(match[1]) });
+    lastIndex = match.index! + match[0].length;
+  }
+
+  const rest = text.slice(lastIndex);
+  if (lastIndex === 0) {
+    parts.push({ text });
+  } else if (rest.trim()) {
+    parts.push({ text: rest.trim() });
+  }
+
+  return parts;
+}
 
 /**
  * OpenAI消息转Gemini内容
+ * assistant 消息会从签名缓存中回填 thoughtSignature，
+ * 图片/音频/文件统一转换为 inlineData（远程 URL 会被下载）
  */
-function messageToGeminiContent(message: ChatMessage): GeminiContent {
+async function messageToGeminiContent(
+  message: ChatMessage,
+  sessionId: string,
+  upstreamModel: string
+): Promise<GeminiContent> {
   const role = message.role === "assistant" ? "model" : "user";
   const parts: GeminiPart[] = [];
+  const signatureCache = getSignatureCache();
+
+  // 带签名的思考内容需原样回传（客户端回传的签名优先，其次查缓存），未签名的思考内容直接丢弃
+  if (message.role === "assistant" && message.reasoning_content) {
+    const clientSignature = message.reasoning_signature !== SKIP_THOUGHT_SIGNATURE
+      ? message.reasoning_signature
+      : undefined;
+    const signature = clientSignature || signatureCache.getThought(sessionId, message.reasoning_content);
+    if (signature) {
+      parts.push({ text: message.reasoning_content, thought: true, thoughtSignature: signature });
+    }
+  }
+
+  // 加密的思考内容只有签名，作为空的思考部分回传
+  if (message.role === "assistant" && message.redacted_reasoning) {
+    for (const data of message.redacted_reasoning) {
+      parts.push({ text: "", thought: true, thoughtSignature: data });
+    }
+  }
 
   if (message.content) {
     if (typeof message.content === "string") {
-      parts.push({ text: message.content });
+      if (message.role === "assistant") {
+        parts.push(...await splitMarkdownImages(message.content));
+      } else {
+        parts.push({ text: message.content });
+      }
     } else if (Array.isArray(message.content)) {
       for (const part of message.content) {
         if (part.type === "text" && part.text) {
           parts.push({ text: part.text });
         } else if (part.type === "image_url" && part.image_url) {
-          // 处理base64图片
-          const url = part.image_url.url;
-          if (url.startsWith("data:")) {
-            const match = url.match(/^data:(.+?);base64,(.+)$/);
-            if (match) {
-              parts.push({
-                inlineData: {
-                  mimeType: match[1],
-                  data: match[2],
-                },
-              });
-            }
-          }
+          parts.push({ inlineData: await resolveMediaUrl(part.image_url.url) });
+        } else if (part.type === "input_audio" && part.input_audio) {
+          parts.push({ inlineData: resolveInputAudio(part.input_audio) });
+        } else if (part.type === "file" && part.file) {
+          parts.push({ inlineData: await resolveFilePart(part.file) });
         }
       }
     }
   }
 
+  // 之前生成的图片（images 数组方式返回）
+  if (message.role === "assistant" && message.images) {
+    for (const image of message.images) {
+      parts.push({ inlineData: await resolveMediaUrl(image.image_url.url) });
+    }
+  }
+
+  // Gemini 图片模型要求回传的图片带签名，缺失时使用占位值跳过校验
+  if (message.role === "assistant" && upstreamModel.includes("gemini")) {
+    for (const part of parts) {
+      if (part.inlineData && !part.thoughtSignature) {
+        part.thoughtSignature = SKIP_THOUGHT_SIGNATURE;
+      }
+    }
+  }
+
   // 处理工具调用
   if (message.tool_calls) {
     for (const toolCall of message.tool_calls) {
@@ -61,13 +163,56 @@ function messageToGeminiContent(message: ChatMessage): GeminiContent {
           name: toolCall.function.name,
           args,
         },
+        thoughtSignature: signatureCache.getToolCall(sessionId, toolCall.id),
       });
     }
+
+    // Gemini 要求每轮首个 functionCall 带签名，缺失时使用占位值跳过校验
+    const firstCall = parts.find((part) => part.functionCall);
+    if (
+      firstCall &&
+      upstreamModel.includes("gemini") &&
+      !parts.some((part) => part.thoughtSignature)
+    ) {
+      firstCall.thoughtSignature = SKIP_THOUGHT_SIGNATURE;
+    }
   }
 
   return { role, parts };
 }
 
+/**
+ * system / developer 消息内容转文本部分
+ */
+function systemMessageToParts(message: ChatMessage): GeminiPart[] {
+  if (!message.content) return [];
+  if (typeof message.content === "string") {
+    return message.content ? [{ text: message.content }] : [];
+  }
+  return message.content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => ({ text: part.text }));
+}
+
+/**
+ * 消息的文本内容（数组内容拼接所有文本部分）
+ */
+function messageText(message: ChatMessage | undefined): string {
+  if (!message?.content) return "";
+  if (typeof message.content === "string") return message.content;
+  return message.content
+    .filter((part) => part.type === "text" && part.text)
+    .map((part) => part.text)
+    .join("\n");
+}
+
+/**
+ * 由第一条用户消息生成稳定的 session ID（thoughtSignature 缓存的会话键）
+ */
+export function getRequestSessionId(request: ChatCompletionRequest): Promise<string> {
+  return generateStableSessionId(messageText(request.messages.find((m) => m.role === "user")));
+}
+
 /**
  * 查找工具调用对应的函数名
  */
@@ -85,6 +230,168 @@ function findFunctionName(messages: ChatMessage[], toolCallId: string): string {
   return "unknown_function";
 }
 
+/**
+ * 思考等级顺序（由低到高）
+ */
+const THINKING_LEVEL_ORDER = ["none", "minimal", "low", "medium", "high", "xhigh"];
+
+/**
+ * 思考等级对应的默认预算
+ */
+const THINKING_EFFORT_BUDGETS: Record<string, number> = {
+  none: 0,
+  minimal: 512,
+  low: 1024,
+  medium: 8192,
+  high: 24576,
+};
+
+/**
+ * 思考预算转换为等级
+ */
+function budgetToLevel(budget: number): string {
+  if (budget <= 0) return "none";
+  if (budget <= 512) return "minimal";
+  if (budget <= 4096) return "low";
+  if (budget <= 16384) return "medium";
+  return "high";
+}
+
+/**
+ * 选择模型支持的最接近等级（不支持时向上取，超出时取最高）
+ */
+function pickSupportedLevel(level: string, supported: string[]): string {
+  if (supported.includes(level)) return level;
+
+  const target = THINKING_LEVEL_ORDER.indexOf(level);
+  const sorted = [...supported].sort(
+    (a, b) => THINKING_LEVEL_ORDER.indexOf(a) - THINKING_LEVEL_ORDER.indexOf(b)
+  );
+  return sorted.find((l) => THINKING_LEVEL_ORDER.indexOf(l) >= target) || sorted[sorted.length - 1];
+}
+
+/**
+ * 构建思考配置
+ * 优先级：模型名后缀 > thinking 参数 > reasoning_effort
+ * 数值表示思考预算，字符串表示思考等级；结果按模型声明的范围截断
+ */
+export function buildThinkingConfig(
+  request: ChatCompletionRequest,
+  maxOutputTokens: number
+): NonNullable<AntigravityRequest["request"]["generationConfig"]>["thinkingConfig"] {
+  const modelInfo = getAntigravityModel(request.model);
+  const supportsBudget = modelInfo?.thinkingBudgetMax !== undefined;
+  const levels = modelInfo?.thinkingLevels || [];
+  if (!supportsBudget && levels.length === 0) return undefined;
+
+  // 统一解析为预算（数值）或等级（字符串）
+  let budget: number | undefined;
+  let level: string | undefined;
+
+  const { suffix } = parseModelSuffix(request.model);
+  if (suffix !== undefined) {
+    if (/^-?\d+$/.test(suffix)) {
+      budget = parseInt(suffix, 10);
+    } else {
+      level = suffix.toLowerCase();
+    }
+  } else if (request.thinking) {
+    if (request.thinking.type === "disabled") {
+      level = "none";
+    } else if (request.thinking.budget_tokens !== undefined) {
+      budget = request.thinking.budget_tokens;
+    }
+  } else if (request.reasoning_effort) {
+    level = request.reasoning_effort.toLowerCase();
+  }
+
+  // 未指定时仅开启思考内容输出，预算由上游决定
+  if (budget === undefined && level === undefined) {
+    return { includeThoughts: true };
+  }
+
+  if (supportsBudget) {
+    const min = modelInfo?.thinkingBudgetMin ?? 0;
+    const max = modelInfo?.thinkingBudgetMax ?? 0;
+
+    if (level === "auto" || budget === -1) {
+      // 动态思考（仅 Gemini 支持，Claude 使用最大预算）
+      const isClaude = request.model.includes("claude");
+      budget = isClaude ? max : -1;
+    } else if (budget === undefined) {
+      budget = level === "xhigh" ? max : THINKING_EFFORT_BUDGETS[level!] ?? THINKING_EFFORT_BUDGETS.medium;
+    }
+
+    if (budget !== -1) {
+      // 思考预算不能超过输出上限
+      budget = Math.min(Math.max(budget, min), max, Math.max(min, maxOutputTokens - 1));
+    }
+
+    return { thinkingBudget: budget, includeThoughts: budget !== 0 };
+  }
+
+  // 仅支持等级的模型（Gemini 3）
+  if (level === undefined) {
+    level = budget! < 0 ? "high" : budgetToLevel(budget!);
+  } else if (level === "auto") {
+    level = "high";
+  } else if (!THINKING_LEVEL_ORDER.includes(level)) {
+    level = "medium";
+  }
+  return { thinkingLevel: pickSupportedLevel(level, levels), includeThoughts: true };
+}
+
+/**
+ * 查找目标模型不支持的参数
+ * logprobs 无法转换；流式不支持多个候选；claude-* 上游不支持惩罚项、seed 和多候选
+ */
+export function findUnsupportedParams(request: ChatCompletionRequest): string[] {
+  const upstreamModel = getUpstreamModelName(parseModelSuffix(request.model).model);
+  const isClaude = upstreamModel.startsWith("claude");
+  const unsupported: string[] = [];
+
+  if (request.logprobs) unsupported.push("logprobs");
+  if (request.top_logprobs !== undefined) unsupported.push("top_logprobs");
+  if ((request.n ?? 1) > 1 && (request.stream || isClaude)) unsupported.push("n");
+
+  if (isClaude) {
+    if (request.presence_penalty !== undefined) unsupported.push("presence_penalty");
+    if (request.frequency_penalty !== undefined) unsupported.push("frequency_penalty");
+    if (request.seed !== undefined) unsupported.push("seed");
+  }
+
+  return unsupported;
+}
+
+/**
+ * 映射采样参数到 generationConfig（跳过不支持的参数）
+ */
+function applySamplingParams(
+  request: ChatCompletionRequest,
+  generationConfig: NonNullable<AntigravityRequest["request"]["generationConfig"]>
+): void {
+  const unsupported = new Set(findUnsupportedParams(request));
+
+  if (request.stop) {
+    generationConfig.stopSequences = Array.isArray(request.stop) ? request.stop : [request.stop];
+  }
+  if (request.top_k !== undefined) {
+    generationConfig.topK = request.top_k;
+  }
+  if (request.n !== undefined && request.n > 1 && !unsupported.has("n")) {
+    generationConfig.candidateCount = request.n;
+  }
+  if (request.presence_penalty !== undefined && !unsupported.has("presence_penalty")) {
+    generationConfig.presencePenalty = request.presence_penalty;
+  }
+  if (request.frequency_penalty !== undefined && !unsupported.has("frequency_penalty")) {
+    generationConfig.frequencyPenalty = request.frequency_penalty;
+  }
+  if (request.seed !== undefined && !unsupported.has("seed")) {
+    generationConfig.seed = request.seed;
+  }
+}
+
 /**
  * OpenAI请求转Antigravity请求
  */
@@ -93,19 +400,25 @@ export async function translateToAntigravity(
   projectId: string
 ): Promise<AntigravityRequest> {
   const contents: GeminiContent[] = [];
-  let systemInstruction: GeminiContent | undefined;
+  const systemParts: GeminiPart[] = [];
+  const systemPlacement = getConfig().systemMessagePlacement || "system_instruction";
+
+  const sessionId = await getRequestSessionId(request);
+
+  const upstreamModel = getUpstreamModelName(parseModelSuffix(request.model).model);
 
   // 处理消息
   for (let i = 0; i < request.messages.length; i++) {
     const message = request.messages[i];
 
-    if (message.role === "system") {
-      // 系统消息作为system instruction
-      if (!systemInstruction) {
-        systemInstruction = {
-          role: "user",
-          parts: [{ text: typeof message.content === "string" ? message.content || "" : "" }],
-        };
+    if (message.role === "system" || message.role === "developer") {
+      const parts = systemMessageToParts(message);
+
+      // 开头的系统消息始终合并到system instruction，中途的按配置处理
+      if (contents.length > 0 && systemPlacement === "inline") {
+        if (parts.length > 0) contents.push({ role: "user", parts });
+      } else {
+        systemParts.push(...parts);
       }
       continue;
     }
@@ -140,21 +453,10 @@ export async function translateToAntigravity(
       i = j - 1; // 跳过已处理的消息
       contents.push({ role: "function", parts: functionResponseParts });
     } else {
-      contents.push(messageToGeminiContent(message));
+      contents.push(await messageToGeminiContent(message, sessionId, upstreamModel));
     }
   }
 
-  // 获取第一条用户消息用于生成稳定的session ID
-  const firstUserMessage = request.messages.find((m) => m.role === "user");
-  const firstUserText = firstUserMessage
-    ? typeof firstUserMessage.content === "string"
-      ? firstUserMessage.content
-      : ""
-    : "";
-  const sessionId = await generateStableSessionId(firstUserText);
-
-  const upstreamModel = getUpstreamModelName(request.model);
-
   // 优先使用 max_completion_tokens（OpenAI 新版 API），其次使用 max_tokens
   // 默认值设置为 65536，确保 Claude 模型能够输出足够长的内容
   const maxOutputTokens = request.max_completion_tokens || request.max_tokens || 65536;
@@ -180,31 +482,81 @@ export async function translateToAntigravity(
         temperature: request.temperature,
         maxOutputTokens,
         topP: request.top_p,
+        thinkingConfig: buildThinkingConfig(request, maxOutputTokens),
       },
       safetySettings: defaultSafetySettings,
       toolConfig: {
         functionCallingConfig: {
-          mode: typeof request.tool_choice === "object" ? "ANY" : (request.tool_choice === "none" ? "NONE" : "AUTO"),
+          mode: typeof request.tool_choice === "object" || request.tool_choice === "required"
+            ? "ANY"
+            : (request.tool_choice === "none" ? "NONE" : "AUTO"),
           allowedFunctionNames: typeof request.tool_choice === "object" ? [request.tool_choice.function.name] : undefined,
         },
       },
     },
   };
 
-  // 添加系统指令
-  if (systemInstruction) {
-    (antigravityRequest.request as Record<string, unknown>).systemInstruction = systemInstruction;
+  applySamplingParams(request, antigravityRequest.request.generationConfig!);
+
+  // 图片输出（图片模型默认同时输出文本和图片）
+  if (isImageModel(request.model) || request.modalities?.includes("image")) {
+    const generationConfig = antigravityRequest.request.generationConfig!;
+    generationConfig.responseModalities = request.modalities?.length
+      ? request.modalities.map((m) => m.toUpperCase())
+      : ["TEXT", "IMAGE"];
+    if (request.image_config) {
+      generationConfig.imageConfig = {
+        aspectRatio: request.image_config.aspect_ratio,
+        imageSize: request.image_config.image_size,
+      };
+    }
+  }
+
+  // 结构化输出（JSON 模式 / JSON Schema）
+  const responseFormat = request.response_format;
+  if (responseFormat?.type === "json_object" || responseFormat?.type === "json_schema") {
+    const generationConfig = antigravityRequest.request.generationConfig!;
+    generationConfig.responseMimeType = "application/json";
+    if (responseFormat.type === "json_schema" && responseFormat.json_schema?.schema) {
+      // 与工具参数相同，按上游模型族转换：gemini 使用 OpenAPI 形式的 responseSchema，claude 使用标准 JSON Schema
+      const schema = responseFormat.json_schema.schema;
+      if (getSchemaFamily(upstreamModel) === "claude") {
+        generationConfig.responseJsonSchema = sanitizeSchema(schema, "claude").schema;
+      } else {
+        generationConfig.responseSchema = toGeminiResponseSchema(schema);
+      }
+    }
+  }
+
+  // 添加系统指令（所有系统消息按顺序合并）
+  if (systemParts.length > 0) {
+    (antigravityRequest.request as Record<string, unknown>).systemInstruction = {
+      role: "user",
+      parts: systemParts,
+    };
   }
 
   // 处理工具定义
   if (request.tools && request.tools.length > 0) {
+    // 参数 schema 按上游模型族清理
+    const schemaFamily = getSchemaFamily(upstreamModel);
     const functionDeclarations = request.tools
       .filter((t) => t.type === "function")
-      .map((t) => ({
-        name: t.function.name,
-        description: t.function.description || "",
-        parametersJsonSchema: t.function.parameters,
-      }));
+      .map((t) => {
+        let parameters = t.function.parameters;
+        if (parameters) {
+          const { schema, dropped } = sanitizeSchema(parameters, schemaFamily);
+          if (dropped.length > 0) {
+            logger.debug(`Tool '${t.function.name}' schema (${schemaFamily}): dropped ${dropped.join(", ")}`);
+          }
+          parameters = schema;
+        }
+        return {
+          name: t.function.name,
+          description: t.function.description || "",
+          parametersJsonSchema: parameters,
+        };
+      });
 
     if (functionDeclarations.length > 0) {
       antigravityRequest.request.tools = [{ functionDeclarations }];
@@ -215,18 +567,59 @@ export async function translateToAntigravity(
 }
 
 /**
- * Antigravity响应转OpenAI响应（非流式）
+ * Gemini原生请求包装为Antigravity请求
+ * 不经过OpenAI格式转换，保留thoughtSignature、inlineData等原生字段
  */
-export function translateFromAntigravity(
-  response: AntigravityResponse,
-  model: string
-): ChatCompletionResponse {
-  const candidate = response.response.candidates?.[0];
+export async function wrapGeminiRequest(
+  model: string,
+  nativeRequest: GeminiGenerateContentRequest,
+  projectId: string
+): Promise<AntigravityRequest> {
+  // 使用第一条用户消息生成稳定的session ID
+  const firstUserContent = nativeRequest.contents?.find((c) => c.role === "user");
+  const firstUserText = (firstUserContent?.parts || [])
+    .filter((p) => p.text)
+    .map((p) => p.text)
+    .join("\n");
+  const sessionId = await generateStableSessionId(firstUserText);
+
+  return {
+    model: getUpstreamModelName(model),
+    project: projectId || generateProjectId(),
+    requestId: generateRequestId(),
+    userAgent: "antigravity",
+    request: {
+      ...nativeRequest,
+      sessionId,
+    } as AntigravityRequest["request"],
+  };
+}
+
+/**
+ * 解包Antigravity响应，取出Gemini原生的response字段
+ */
+export function unwrapGeminiResponse(chunk: unknown): unknown {
+  const data = chunk as Record<string, unknown>;
+  return data?.response ?? data;
+}
+
+/**
+ * 单个候选转OpenAI选项
+ */
+function candidateToChoice(
+  candidate: AntigravityResponse["response"]["candidates"][number] | undefined,
+  index: number,
+  sessionId: string | undefined,
+  imageOutput: ImagesConfig["chatOutput"]
+): ChatCompletionChoice {
   const content = candidate?.content;
+  const signatureCache = getSignatureCache();
   
   let textContent = "";
   let reasoningContent = "";
+  let thoughtSignature: string | undefined;
   const toolCalls: ToolCall[] = [];
+  const images: ChatImage[] = [];
 
   if (content?.parts) {
     for (const part of content.parts) {
@@ -237,20 +630,35 @@ export function translateFromAntigravity(
           textContent += part.text;
         }
       }
+
+      if (part.inlineData && !part.thought) {
+        images.push(inlineDataToImage(part.inlineData));
+      }
       
       if (part.functionCall) {
+        const id = part.functionCall.id || `call_${crypto.randomUUID().slice(0, 8)}`;
         toolCalls.push({
-          id: `call_${crypto.randomUUID().slice(0, 8)}`,
+          id,
           type: "function",
           function: {
             name: part.functionCall.name,
             arguments: JSON.stringify(part.functionCall.args),
           },
         });
+        if (sessionId && part.thoughtSignature) {
+          signatureCache.saveToolCall(sessionId, id, part.thoughtSignature);
+        }
+      } else if (part.thoughtSignature) {
+        thoughtSignature = part.thoughtSignature;
       }
     }
   }
 
+  // 保存思考内容签名，供下一轮回传
+  if (sessionId && thoughtSignature && reasoningContent) {
+    signatureCache.saveThought(sessionId, reasoningContent, thoughtSignature);
+  }
+
   const message: ChatMessage = {
     role: "assistant",
     content: textContent || null, // 如果有tool_calls但没有text，content应为null
@@ -258,52 +666,160 @@ export function translateFromAntigravity(
 
   if (reasoningContent) {
     message.reasoning_content = reasoningContent;
+    if (thoughtSignature) {
+      message.reasoning_signature = thoughtSignature;
+    }
   }
 
   if (toolCalls.length > 0) {
     message.tool_calls = toolCalls;
   }
+
+  // 生成的图片按配置写入 content 或 images
+  if (images.length > 0) {
+    if (imageOutput === "array") {
+      message.images = images;
+    } else {
+      message.content = [textContent, formatImageMarkdown(images)].filter(Boolean).join("\n\n");
+    }
+  }
   
   // 如果内容为空且没有工具调用，提供空字符串以避免错误
   if (message.content === null && (!message.tool_calls || message.tool_calls.length === 0)) {
     message.content = "";
   }
 
-  let finishReason = mapFinishReason(candidate?.finishReason || "STOP");
-  if (toolCalls.length > 0) {
-    finishReason = "tool_calls";
+  const nativeFinishReason = candidate?.finishReason || "STOP";
+  const choice: ChatCompletionChoice = {
+    index,
+    message,
+    finish_reason: toolCalls.length > 0 ? "tool_calls" : mapFinishReason(nativeFinishReason),
+  };
+  if (candidate?.finishReason) {
+    choice.native_finish_reason = candidate.finishReason;
   }
 
+  return choice;
+}
+
+
+/**
+ * Antigravity响应转OpenAI响应（非流式）
+ * 请求多个候选（n > 1）时每个候选对应一个 choice
+ * @param imageOutput 生成图片的返回方式，默认使用配置
+ */
+export function translateFromAntigravity(
+  response: AntigravityResponse,
+  model: string,
+  sessionId?: string,
+  imageOutput: ImagesConfig["chatOutput"] = getConfig().images?.chatOutput ?? "markdown"
+): ChatCompletionResponse {
+  const candidates = response.response.candidates || [];
+  const choices = candidates.length > 0
+    ? candidates.map((candidate, i) => candidateToChoice(candidate, candidate.index ?? i, sessionId, imageOutput))
+    : [candidateToChoice(undefined, 0, sessionId, imageOutput)];
+
   return {
     id: response.response.responseId || `chatcmpl-${Date.now()}`,
     object: "chat.completion",
     created: Math.floor(Date.now() / 1000),
     model,
+    choices,
+    usage: translateUsageMetadata(response.response.usageMetadata),
+  };
+}
+
+/**
+ * Gemini usageMetadata 转 OpenAI usage
+ * 思考 token 计入 completion_tokens，并在 completion_tokens_details 中单独列出
+ */
+export function translateUsageMetadata(metadata: GeminiUsageMetadata | undefined): UsageInfo | undefined {
+  if (!metadata) return undefined;
+
+  const promptTokens = metadata.promptTokenCount || 0;
+  const thoughtsTokens = metadata.thoughtsTokenCount || 0;
+  const completionTokens = (metadata.candidatesTokenCount || 0) + thoughtsTokens;
+
+  const usage: UsageInfo = {
+    prompt_tokens: promptTokens,
+    completion_tokens: completionTokens,
+    total_tokens: metadata.totalTokenCount || promptTokens + completionTokens,
+  };
+
+  if (metadata.cachedContentTokenCount !== undefined) {
+    usage.prompt_tokens_details = { cached_tokens: metadata.cachedContentTokenCount };
+  }
+  if (metadata.thoughtsTokenCount !== undefined) {
+    usage.completion_tokens_details = { reasoning_tokens: thoughtsTokens };
+  }
+
+  return usage;
+}
+
+/**
+ * 流式转换状态
+ * 同一流中的每个函数调用分配稳定的 index 和 id
+ */
+export interface StreamTranslationState {
+  nextToolCallIndex: number;
+  sessionId?: string;
+  reasoningText: string;
+  thoughtSignature?: string;
+  usage?: UsageInfo;
+  finishReason?: ChatCompletionChunkChoice["finish_reason"];
+  nativeFinishReason?: string;
+  imageOutput: ImagesConfig["chatOutput"];
+}
+
+/**
+ * 创建流式转换状态
+ * @param sessionId 用于缓存 thoughtSignature 的会话ID
+ */
+export function createStreamTranslationState(sessionId?: string): StreamTranslationState {
+  return {
+    nextToolCallIndex: 0,
+    sessionId,
+    reasoningText: "",
+    imageOutput: getConfig().images?.chatOutput ?? "markdown",
+  };
+}
+
+/**
+ * 构建流式chunk
+ */
+function buildStreamChunk(
+  model: string,
+  chunkId: string,
+  delta: ChatCompletionDelta,
+  finishReason: ChatCompletionChunkChoice["finish_reason"] = null
+): ChatCompletionChunk {
+  return {
+    id: chunkId,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
     choices: [
       {
         index: 0,
-        message,
+        delta,
         finish_reason: finishReason,
       },
     ],
-    usage: response.response.usageMetadata
-      ? {
-          prompt_tokens: response.response.usageMetadata.promptTokenCount || 0,
-          completion_tokens: response.response.usageMetadata.candidatesTokenCount || 0,
-          total_tokens: response.response.usageMetadata.totalTokenCount || 0,
-        }
-      : undefined,
   };
 }
 
 /**
  * Antigravity流式响应转OpenAI流式响应
+ * 一个上游chunk可能对应多个OpenAI chunk：文本增量在前，
+ * 每个函数调用先发送 id 和 name，再以增量形式发送参数。
+ * 结束原因只记录到 state 中，由调用方通过 createStreamFinishChunk 统一发送
  */
 export function translateStreamChunk(
   chunk: unknown,
   model: string,
-  chunkId: string
-): ChatCompletionChunk | null {
+  chunkId: string,
+  state: StreamTranslationState
+): ChatCompletionChunk[] {
   const data = chunk as Record<string, unknown>;
   
   // 尝试从不同的响应格式中提取内容
@@ -312,94 +828,162 @@ export function translateStreamChunk(
     response = data as Record<string, unknown>;
   }
   
-  if (!response) return null;
+  if (!response) return [];
+
+  // usageMetadata 为累计值，保留最后一次
+  const usage = translateUsageMetadata(response.usageMetadata as GeminiUsageMetadata | undefined);
+  if (usage) {
+    state.usage = usage;
+  }
 
   const candidates = response.candidates as Array<Record<string, unknown>> | undefined;
-  if (!candidates || candidates.length === 0) return null;
+  if (!candidates || candidates.length === 0) {
+    // 提示词被拦截时没有候选，只有 promptFeedback.blockReason
+    const blockReason = (response.promptFeedback as { blockReason?: string } | undefined)?.blockReason;
+    if (blockReason) {
+      state.finishReason = "content_filter";
+      state.nativeFinishReason = blockReason;
+    }
+    return [];
+  }
 
   const candidate = candidates[0];
   const content = candidate.content as { parts?: GeminiPart[] } | undefined;
-  
-  if (!content?.parts || content.parts.length === 0) return null;
+  const parts = content?.parts || [];
 
   let textContent = "";
   let reasoningContent = "";
-  const toolCalls: ToolCall[] = []; // 这里是delta中的tool_calls
-
-  for (const part of content.parts) {
-      if (part.text) {
-          if (part.thought) {
-              reasoningContent += part.text;
-          } else {
-              textContent += part.text;
-          }
+  const chunks: ChatCompletionChunk[] = [];
+  const toolCallChunks: ChatCompletionChunk[] = [];
+  const images: ChatImage[] = [];
+  const signatureCache = getSignatureCache();
+  let thoughtSignature: string | undefined;
+
+  for (const part of parts) {
+    if (part.text) {
+      if (part.thought) {
+        reasoningContent += part.text;
+      } else {
+        textContent += part.text;
       }
-      if (part.functionCall) {
-          toolCalls.push({
-              id: `call_${crypto.randomUUID().slice(0, 8)}`,
-              type: "function",
-              function: {
-                  name: part.functionCall.name,
-                  arguments: JSON.stringify(part.functionCall.args),
-              }
-          });
+    }
+
+    if (part.inlineData && !part.thought) {
+      images.push(inlineDataToImage(part.inlineData));
+    }
+
+    if (part.functionCall) {
+      const index = state.nextToolCallIndex++;
+      const id = part.functionCall.id || `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`;
+      if (state.sessionId && part.thoughtSignature) {
+        signatureCache.saveToolCall(state.sessionId, id, part.thoughtSignature);
       }
+      toolCallChunks.push(
+        buildStreamChunk(model, chunkId, {
+          tool_calls: [{
+            index,
+            id,
+            type: "function",
+            function: { name: part.functionCall.name, arguments: "" },
+          }],
+        }),
+        buildStreamChunk(model, chunkId, {
+          tool_calls: [{
+            index,
+            function: { arguments: JSON.stringify(part.functionCall.args || {}) },
+          }],
+        })
+      );
+    } else if (part.thoughtSignature) {
+      thoughtSignature = part.thoughtSignature;
+      state.thoughtSignature = part.thoughtSignature;
+    }
   }
 
-  let finishReason = candidate.finishReason
-    ? mapFinishReason(candidate.finishReason as string)
-    : null;
+  state.reasoningText += reasoningContent;
 
-  if (toolCalls.length > 0) {
-      finishReason = "tool_calls"; // 通常如果有functionCall，finishReason就是function_call/tool_calls
+  // 生成的图片按配置写入 content 或 images
+  const delta: ChatCompletionDelta = {};
+  if (images.length > 0) {
+    if (state.imageOutput === "array") {
+      delta.images = images;
+    } else {
+      textContent = [textContent, formatImageMarkdown(images)].filter(Boolean).join("\n\n");
+    }
+  }
+  if (reasoningContent) {
+    delta.reasoning_content = reasoningContent;
+  }
+  // 签名随所在的上游 chunk 发送，客户端可以在思考块结束前拿到
+  if (thoughtSignature && state.reasoningText) {
+    delta.reasoning_signature = thoughtSignature;
   }
-
-  const delta: Partial<ChatMessage> = {};
   if (textContent) {
-      delta.content = textContent;
+    delta.content = textContent;
   }
-  if (reasoningContent) {
-      delta.reasoning_content = reasoningContent;
+  if (delta.content || delta.reasoning_content || delta.reasoning_signature || delta.images) {
+    chunks.push(buildStreamChunk(model, chunkId, delta));
   }
-  if (toolCalls.length > 0) {
-      // 流式tool_calls需要特殊处理，OpenAI使用index来流式传输数组
-      // 这里简化处理，直接发送完整的tool_calls数组作为delta（虽然OpenAI协议是index based，但许多客户端能处理）
-      // 严格来说，应该映射为 { index: number, id?: ..., function?: ... } 的结构
-      // 但ChatCompletionChunk定义 delta: Partial<ChatMessage>，ChatMessage里的tool_calls是数组
-      // 我们这里稍微hack一下，只要客户端能收到就行
-      delta.tool_calls = toolCalls;
+  chunks.push(...toolCallChunks);
+
+  if (candidate.finishReason) {
+    state.finishReason = mapFinishReason(candidate.finishReason as string);
+    state.nativeFinishReason = candidate.finishReason as string;
+
+    // 流结束时保存完整思考内容的签名
+    if (state.sessionId && state.thoughtSignature && state.reasoningText) {
+      signatureCache.saveThought(state.sessionId, state.reasoningText, state.thoughtSignature);
+    }
   }
 
-  // 如果没有内容也没有tool_calls，跳过 (除非是finishReason)
-  if (!delta.content && !delta.reasoning_content && !delta.tool_calls && !finishReason) {
-      return null;
+  return chunks;
+}
+
+/**
+ * 判断流式chunk是否包含有效内容（用于首个有效内容前的故障转移）
+ * 仅含用量或空文本的chunk不算；STOP 以外的结束原因和提示词拦截视为有效结果
+ */
+export function hasStreamContent(chunk: unknown): boolean {
+  const response = (unwrapGeminiResponse(chunk) || {}) as Record<string, unknown>;
+  if ((response.promptFeedback as { blockReason?: string } | undefined)?.blockReason) {
+    return true;
   }
 
-  // 流式通常不带role，除非是第一帧，但handler里我们单独发了第一帧
-  // 这里delta不需要role
+  const candidates = response.candidates as Array<Record<string, unknown>> | undefined;
+  return (candidates || []).some((candidate) => {
+    const parts = (candidate.content as { parts?: GeminiPart[] } | undefined)?.parts || [];
+    const hasParts = parts.some((part) => part.text || part.functionCall || part.inlineData);
+    const finishReason = candidate.finishReason as string | undefined;
+    return hasParts || (!!finishReason && finishReason !== "STOP");
+  });
+}
 
-  return {
-    id: chunkId,
-    object: "chat.completion.chunk",
-    created: Math.floor(Date.now() / 1000),
-    model,
-    choices: [
-      {
-        index: 0,
-        delta,
-        finish_reason: finishReason,
-      },
-    ],
-  };
+/**
+ * 创建流的唯一结束chunk
+ * 本次流中出现过函数调用时结束原因为 tool_calls；上游未给出结束原因时按 stop 处理
+ */
+export function createStreamFinishChunk(
+  model: string,
+  chunkId: string,
+  state: StreamTranslationState
+): ChatCompletionChunk {
+  const finishReason = state.nextToolCallIndex > 0 && (!state.finishReason || state.finishReason === "stop")
+    ? "tool_calls"
+    : state.finishReason || "stop";
+  return createFinalChunk(model, chunkId, finishReason, state.nativeFinishReason);
 }
 
 /**
  * 映射完成原因
+ * 安全类原因映射为 content_filter；其他无对应 OpenAI 值的原因（如 MALFORMED_FUNCTION_CALL、OTHER）
+ * 按 stop 处理并记录日志，原始值通过 native_finish_reason 返回
  */
-function mapFinishReason(reason: string): "stop" | "length" | "function_call" | "tool_calls" | "content_filter" | null {
+export function mapFinishReason(reason: string): ChatCompletionChoice["finish_reason"] {
   switch (reason.toUpperCase()) {
     case "STOP":
     case "END_TURN":
+    case "STOP_SEQUENCE":
+    case "FINISH_REASON_UNSPECIFIED":
       return "stop";
     case "MAX_TOKENS":
     case "LENGTH":
@@ -410,9 +994,13 @@ function mapFinishReason(reason: string): "stop" | "length" | "function_call" |
     case "SAFETY":
     case "RECITATION":
     case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+    case "IMAGE_SAFETY":
       return "content_filter";
     default:
-      return null;
+      logger.info(`Unmapped finish reason ${reason}, reporting as stop`);
+      return "stop";
   }
 }
 
@@ -441,18 +1029,33 @@ export function createInitialChunk(model: string, chunkId: string): ChatCompleti
 /**
  * 创建结束流式chunk
  */
-export function createFinalChunk(model: string, chunkId: string): ChatCompletionChunk {
+export function createFinalChunk(
+  model: string,
+  chunkId: string,
+  finishReason: ChatCompletionChunkChoice["finish_reason"] = "stop",
+  nativeFinishReason?: string
+): ChatCompletionChunk {
+  const chunk = buildStreamChunk(model, chunkId, {}, finishReason);
+  if (nativeFinishReason) {
+    chunk.choices[0].native_finish_reason = nativeFinishReason;
+  }
+  return chunk;
+}
+
+/**
+ * 创建用量chunk（stream_options.include_usage，choices 为空）
+ */
+export function createUsageChunk(
+  model: string,
+  chunkId: string,
+  usage: UsageInfo | undefined
+): ChatCompletionChunk {
   return {
     id: chunkId,
     object: "chat.completion.chunk",
     created: Math.floor(Date.now() / 1000),
     model,
-    choices: [
-      {
-        index: 0,
-        delta: {},
-        finish_reason: "stop",
-      },
-    ],
+    choices: [],
+    usage: usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
   };
 }
\ No newline at end of file
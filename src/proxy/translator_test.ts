@@ -0,0 +1,326 @@
+import { assert, assertEquals } from "@std/assert";
+import type { ChatCompletionRequest } from "../types.ts";
+import { getConfig, loadConfig } from "../config.ts";
+import {
+  buildThinkingConfig,
+  createStreamTranslationState,
+  findUnsupportedParams,
+  getRequestSessionId,
+  hasStreamContent,
+  mapFinishReason,
+  translateStreamChunk,
+  translateFromAntigravity,
+  translateToAntigravity,
+} from "./translator.ts";
+import { SKIP_THOUGHT_SIGNATURE } from "./signature_cache.ts";
+
+await loadConfig();
+
+/**
+ * 构造只包含一条用户消息的聊天请求
+ */
+function chatRequest(model: string, options: Partial<ChatCompletionRequest> = {}): ChatCompletionRequest {
+  return { model, messages: [{ role: "user", content: "hi" }], ...options };
+}
+
+Deno.test("buildThinkingConfig - models without thinking support get no config", () => {
+  assertEquals(buildThinkingConfig(chatRequest("gpt-5"), 8192), undefined);
+});
+
+Deno.test("buildThinkingConfig - only enables thought output when nothing is requested", () => {
+  assertEquals(buildThinkingConfig(chatRequest("gemini-2.5-flash"), 8192), { includeThoughts: true });
+});
+
+Deno.test("buildThinkingConfig - model suffix takes precedence over request options", () => {
+  const request = chatRequest("gemini-2.5-flash(2048)", { reasoning_effort: "high" });
+  assertEquals(buildThinkingConfig(request, 65536), { thinkingBudget: 2048, includeThoughts: true });
+});
+
+Deno.test("buildThinkingConfig - reasoning_effort maps to a budget", () => {
+  const request = chatRequest("gemini-2.5-flash", { reasoning_effort: "low" });
+  assertEquals(buildThinkingConfig(request, 65536), { thinkingBudget: 1024, includeThoughts: true });
+});
+
+Deno.test("buildThinkingConfig - budget is clamped to the model range and output limit", () => {
+  const request = chatRequest("gemini-2.5-pro", { thinking: { type: "enabled", budget_tokens: 100000 } });
+  assertEquals(buildThinkingConfig(request, 65536), { thinkingBudget: 32768, includeThoughts: true });
+  assertEquals(buildThinkingConfig(request, 4096), { thinkingBudget: 4095, includeThoughts: true });
+
+  const tiny = chatRequest("gemini-2.5-pro", { thinking: { type: "enabled", budget_tokens: 1 } });
+  assertEquals(buildThinkingConfig(tiny, 65536), { thinkingBudget: 128, includeThoughts: true });
+});
+
+Deno.test("buildThinkingConfig - disabled thinking turns off thought output", () => {
+  const request = chatRequest("gemini-2.5-flash", { thinking: { type: "disabled" } });
+  assertEquals(buildThinkingConfig(request, 65536), { thinkingBudget: 0, includeThoughts: false });
+});
+
+Deno.test("buildThinkingConfig - auto uses dynamic thinking", () => {
+  assertEquals(
+    buildThinkingConfig(chatRequest("gemini-2.5-flash(auto)"), 65536),
+    { thinkingBudget: -1, includeThoughts: true }
+  );
+});
+
+Deno.test("buildThinkingConfig - level-only models pick the nearest supported level", () => {
+  // gemini-3-pro-preview 只支持 low / high
+  assertEquals(
+    buildThinkingConfig(chatRequest("gemini-3-pro-preview", { reasoning_effort: "medium" }), 65536),
+    { thinkingLevel: "high", includeThoughts: true }
+  );
+  assertEquals(
+    buildThinkingConfig(chatRequest("gemini-3-pro-preview(1024)"), 65536),
+    { thinkingLevel: "low", includeThoughts: true }
+  );
+});
+
+Deno.test("mapFinishReason - maps normal completions", () => {
+  assertEquals(mapFinishReason("STOP"), "stop");
+  assertEquals(mapFinishReason("stop"), "stop");
+  assertEquals(mapFinishReason("MAX_TOKENS"), "length");
+  assertEquals(mapFinishReason("TOOL_CALLS"), "tool_calls");
+});
+
+Deno.test("mapFinishReason - safety reasons map to content_filter", () => {
+  for (const reason of ["SAFETY", "RECITATION", "BLOCKLIST", "PROHIBITED_CONTENT", "SPII", "IMAGE_SAFETY"]) {
+    assertEquals(mapFinishReason(reason), "content_filter", reason);
+  }
+});
+
+Deno.test("mapFinishReason - other and unknown reasons fall back to stop", () => {
+  for (const reason of ["MALFORMED_FUNCTION_CALL", "OTHER", "LANGUAGE", "IMAGE_OTHER", "SOME_FUTURE_REASON"]) {
+    assertEquals(mapFinishReason(reason), "stop", reason);
+  }
+});
+
+Deno.test("translateStreamChunk - emits the thought signature with the chunk that carries it", () => {
+  const state = createStreamTranslationState();
+  const geminiChunk = (parts: unknown[]) => ({ response: { candidates: [{ content: { role: "model", parts } }] } });
+
+  const first = translateStreamChunk(geminiChunk([{ text: "Let me think.", thought: true }]), "gemini-2.5-flash", "chatcmpl-1", state);
+  assertEquals(first.map((chunk) => chunk.choices[0].delta), [{ reasoning_content: "Let me think." }]);
+
+  const second = translateStreamChunk(
+    geminiChunk([{ text: "Hello", thoughtSignature: "sig-1" }]),
+    "gemini-2.5-flash",
+    "chatcmpl-1",
+    state
+  );
+  assertEquals(second.map((chunk) => chunk.choices[0].delta), [{ reasoning_signature: "sig-1", content: "Hello" }]);
+});
+
+Deno.test("translateToAntigravity - forwards client thinking signatures and redacted thinking", async () => {
+  const request = chatRequest("gemini-2.5-flash", {
+    messages: [
+      { role: "user", content: "hi" },
+      {
+        role: "assistant",
+        content: "Hello",
+        reasoning_content: "Let me think.",
+        reasoning_signature: "sig-1",
+        redacted_reasoning: ["encrypted"],
+      },
+      { role: "user", content: "again" },
+    ],
+  });
+
+  const { request: upstream } = await translateToAntigravity(request, "project");
+  assertEquals(upstream.contents[1].parts, [
+    { text: "Let me think.", thought: true, thoughtSignature: "sig-1" },
+    { text: "", thought: true, thoughtSignature: "encrypted" },
+    { text: "Hello" },
+  ]);
+});
+
+Deno.test("translateToAntigravity - json_schema is converted per model family", async () => {
+  const schema = { type: "object", properties: { name: { type: "string" } }, required: ["name"], additionalProperties: false };
+  const responseFormat = { type: "json_schema" as const, json_schema: { name: "person", schema } };
+
+  const gemini = await translateToAntigravity(chatRequest("gemini-2.5-flash", { response_format: responseFormat }), "project");
+  assertEquals(gemini.request.generationConfig?.responseMimeType, "application/json");
+  assertEquals(gemini.request.generationConfig?.responseSchema, {
+    type: "OBJECT",
+    properties: { name: { type: "STRING" } },
+    required: ["name"],
+  });
+  assertEquals(gemini.request.generationConfig?.responseJsonSchema, undefined);
+
+  const claude = await translateToAntigravity(chatRequest("claude-sonnet-4-5", { response_format: responseFormat }), "project");
+  assertEquals(claude.request.generationConfig?.responseMimeType, "application/json");
+  assertEquals(claude.request.generationConfig?.responseJsonSchema, schema);
+  assertEquals(claude.request.generationConfig?.responseSchema, undefined);
+});
+Deno.test("translateStreamChunk - tool calls get stable indexes and ids across chunks", () => {
+  const state = createStreamTranslationState();
+  const geminiChunk = (parts: unknown[]) => ({ response: { candidates: [{ content: { role: "model", parts } }] } });
+  const deltas = [
+    geminiChunk([{ text: "Checking." }, { functionCall: { id: "call_a", name: "a", args: { x: 1 } } }]),
+    geminiChunk([{ functionCall: { name: "b" } }]),
+  ].flatMap((chunk) =>
+    translateStreamChunk(chunk, "gemini-2.5-flash", "chatcmpl-1", state).map((c) => c.choices[0].delta)
+  );
+
+  assertEquals(deltas.length, 5);
+  assertEquals(deltas[0], { content: "Checking." });
+  assertEquals(deltas[1], { tool_calls: [{ index: 0, id: "call_a", type: "function", function: { name: "a", arguments: "" } }] });
+  assertEquals(deltas[2], { tool_calls: [{ index: 0, function: { arguments: '{"x":1}' } }] });
+
+  const generated = deltas[3].tool_calls![0];
+  assertEquals([generated.index, generated.function?.name], [1, "b"]);
+  assert(generated.id?.startsWith("call_"), generated.id);
+  assertEquals(deltas[4], { tool_calls: [{ index: 1, function: { arguments: "{}" } }] });
+});
+Deno.test("translateToAntigravity - re-attaches cached signatures on the next turn", async () => {
+  const firstTurn = chatRequest("gemini-2.5-flash", { messages: [{ role: "user", content: "signature cache streamed" }] });
+  const state = createStreamTranslationState(await getRequestSessionId(firstTurn));
+  const candidates = [
+    { content: { role: "model", parts: [{ text: "Plan.", thought: true }] } },
+    { content: { role: "model", parts: [{ functionCall: { id: "call_1", name: "lookup", args: {} }, thoughtSignature: "sig-tool" }] } },
+    { content: { role: "model", parts: [{ text: "", thoughtSignature: "sig-thought" }] }, finishReason: "STOP" },
+  ];
+  for (const candidate of candidates) {
+    translateStreamChunk({ response: { candidates: [candidate] } }, "gemini-2.5-flash", "chatcmpl-1", state);
+  }
+
+  const nextTurn = chatRequest("gemini-2.5-flash", {
+    messages: [
+      ...firstTurn.messages,
+      {
+        role: "assistant",
+        content: null,
+        reasoning_content: "Plan.",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "lookup", arguments: "{}" } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "ok" },
+    ],
+  });
+  const { request: upstream } = await translateToAntigravity(nextTurn, "project");
+  assertEquals(upstream.contents[1].parts, [
+    { text: "Plan.", thought: true, thoughtSignature: "sig-thought" },
+    { functionCall: { name: "lookup", args: {} }, thoughtSignature: "sig-tool" },
+  ]);
+});
+
+Deno.test("translateToAntigravity - non-streamed signatures are cached and unknown calls are skipped", async () => {
+  const firstTurn = chatRequest("gemini-2.5-flash", { messages: [{ role: "user", content: "signature cache non-streamed" }] });
+  const sessionId = await getRequestSessionId(firstTurn);
+  translateFromAntigravity({
+    response: {
+      candidates: [{
+        content: {
+          role: "model",
+          parts: [{ functionCall: { id: "call_1", name: "lookup", args: {} }, thoughtSignature: "sig-tool" }],
+        },
+        finishReason: "STOP",
+      }],
+    },
+  }, "gemini-2.5-flash", sessionId);
+
+  const assistantTurn = (id: string) =>
+    chatRequest("gemini-2.5-flash", {
+      messages: [
+        ...firstTurn.messages,
+        { role: "assistant", content: null, tool_calls: [{ id, type: "function", function: { name: "lookup", arguments: "{}" } }] },
+        { role: "tool", tool_call_id: id, content: "ok" },
+      ],
+    });
+
+  const cases = [
+    { id: "call_1", expected: "sig-tool" },
+    { id: "call_unknown", expected: SKIP_THOUGHT_SIGNATURE },
+  ];
+  for (const { id, expected } of cases) {
+    const { request: upstream } = await translateToAntigravity(assistantTurn(id), "project");
+    assertEquals(upstream.contents[1].parts[0].thoughtSignature, expected, id);
+  }
+});
+Deno.test("translateToAntigravity - maps sampling parameters to generationConfig", async () => {
+  const options: Partial<ChatCompletionRequest> = {
+    stop: "END",
+    top_k: 40,
+    n: 2,
+    presence_penalty: 0.5,
+    frequency_penalty: 0.25,
+    seed: 7,
+  };
+  const cases = [
+    {
+      model: "gemini-2.5-flash",
+      expected: { stopSequences: ["END"], topK: 40, candidateCount: 2, presencePenalty: 0.5, frequencyPenalty: 0.25, seed: 7 },
+    },
+    { model: "claude-sonnet-4-5", expected: { stopSequences: ["END"], topK: 40 } },
+  ];
+
+  for (const { model, expected } of cases) {
+    const { request } = await translateToAntigravity(chatRequest(model, options), "project");
+    const { stopSequences, topK, candidateCount, presencePenalty, frequencyPenalty, seed } = request.generationConfig!;
+    assertEquals({ stopSequences, topK, candidateCount, presencePenalty, frequencyPenalty, seed }, expected, model);
+  }
+});
+
+Deno.test("findUnsupportedParams - reports parameters the upstream model cannot honour", () => {
+  const cases = [
+    { name: "gemini", request: chatRequest("gemini-2.5-flash", { n: 2, seed: 1 }), expected: [] },
+    { name: "gemini stream n", request: chatRequest("gemini-2.5-flash", { n: 2, stream: true }), expected: ["n"] },
+    { name: "logprobs", request: chatRequest("gemini-2.5-flash", { logprobs: true, top_logprobs: 2 }), expected: ["logprobs", "top_logprobs"] },
+    {
+      name: "claude",
+      request: chatRequest("claude-sonnet-4-5", { n: 2, presence_penalty: 0, frequency_penalty: 0, seed: 1 }),
+      expected: ["n", "presence_penalty", "frequency_penalty", "seed"],
+    },
+  ];
+
+  for (const { name, request, expected } of cases) {
+    assertEquals(findUnsupportedParams(request), expected, name);
+  }
+});
+Deno.test("translateToAntigravity - merges system and developer messages by placement", async () => {
+  const messages: ChatCompletionRequest["messages"] = [
+    { role: "system", content: "Be brief." },
+    { role: "developer", content: [{ type: "text", text: "Use tools." }] },
+    { role: "user", content: "hi" },
+    { role: "system", content: "Answer in French." },
+    { role: "user", content: "again" },
+  ];
+  const cases = [
+    {
+      placement: "system_instruction" as const,
+      system: [{ text: "Be brief." }, { text: "Use tools." }, { text: "Answer in French." }],
+      contents: [["user", "hi"], ["user", "again"]],
+    },
+    {
+      placement: "inline" as const,
+      system: [{ text: "Be brief." }, { text: "Use tools." }],
+      contents: [["user", "hi"], ["user", "Answer in French."], ["user", "again"]],
+    },
+  ];
+
+  const config = getConfig();
+  const saved = config.systemMessagePlacement;
+  try {
+    for (const { placement, system, contents } of cases) {
+      config.systemMessagePlacement = placement;
+      const { request } = await translateToAntigravity(chatRequest("gemini-2.5-flash", { messages }), "project");
+      assertEquals((request as { systemInstruction?: { parts: unknown[] } }).systemInstruction?.parts, system, placement);
+      assertEquals(request.contents.map((c) => [c.role, c.parts[0].text]), contents, placement);
+    }
+  } finally {
+    config.systemMessagePlacement = saved;
+  }
+});
+Deno.test("hasStreamContent - only content, non-STOP endings and blocked prompts count", () => {
+  const candidate = (parts: unknown[], finishReason?: string) => ({ response: { candidates: [{ content: { parts }, finishReason }] } });
+  const cases = [
+    { name: "text", chunk: candidate([{ text: "Hi" }]), expected: true },
+    { name: "function call", chunk: candidate([{ functionCall: { name: "f" } }]), expected: true },
+    { name: "empty text", chunk: candidate([{ text: "" }]), expected: false },
+    { name: "usage only", chunk: { response: { usageMetadata: { totalTokenCount: 1 } } }, expected: false },
+    { name: "empty STOP", chunk: candidate([], "STOP"), expected: false },
+    { name: "empty SAFETY", chunk: candidate([], "SAFETY"), expected: true },
+    { name: "blocked prompt", chunk: { response: { promptFeedback: { blockReason: "SAFETY" } } }, expected: true },
+  ];
+
+  for (const { name, chunk, expected } of cases) {
+    assertEquals(hasStreamContent(chunk), expected, name);
+  }
+});
\ No newline at end of file
@@ -1,6 +1,7 @@
-import type { AntigravityRequest, AntigravityResponse } from "../types.ts";
-import { ANTIGRAVITY_API } from "../config.ts";
-import { log } from "../utils/http.ts";
+import type { AntigravityRequest, AntigravityResponse, GeminiContent, GeminiPart, TimeoutPolicy } from "../types.ts";
+import { ANTIGRAVITY_API, getTimeoutPolicy } from "../config.ts";
+import { createLinkedAbortController, httpFetch, log } from "../utils/http.ts";
+import { type EndpointPool, getEndpointPool } from "./endpoints.ts";
 
 // 简单的logger封装
 const logger = {
@@ -13,14 +14,13 @@ const logger = {
  * 上游API客户端
  */
 export class UpstreamClient {
-  private baseUrl: string;
-  private useDailyApi: boolean;
-
-  constructor(useDailyApi: boolean = false) {
-    this.useDailyApi = useDailyApi;
-    this.baseUrl = useDailyApi
-      ? ANTIGRAVITY_API.baseUrls[0]  // daily
-      : ANTIGRAVITY_API.baseUrls[2]; // production
+  private endpointPool: EndpointPool;
+
+  /**
+   * @param endpointPool 上游地址池，默认使用共享的 Antigravity 地址池
+   */
+  constructor(endpointPool: EndpointPool = getEndpointPool()) {
+    this.endpointPool = endpointPool;
   }
 
   /**
@@ -28,18 +28,21 @@ export class UpstreamClient {
    */
   async generateContent(
     request: AntigravityRequest,
-    accessToken: string
+    accessToken: string,
+    signal?: AbortSignal,
+    proxyUrl?: string
   ): Promise<AntigravityResponse> {
-    const url = `${this.baseUrl}${ANTIGRAVITY_API.paths.generateContent}`;
-
-    logger.info(`Sending request to ${url}`);
     logger.debug(`Request body: ${JSON.stringify(request)}`);
 
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.buildHeaders(accessToken),
-      body: JSON.stringify(request),
-    });
+    const response = await this.endpointPool.fetch(ANTIGRAVITY_API.paths.generateContent, (url) => {
+      logger.info(`Sending request to ${url}`);
+      return fetchUpstream(url, {
+        method: "POST",
+        headers: this.buildHeaders(accessToken),
+        body: JSON.stringify(request),
+        signal,
+      }, getTimeoutPolicy(request.model), proxyUrl);
+    }, signal);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -61,17 +64,19 @@ export class UpstreamClient {
    */
   async streamGenerateContent(
     request: AntigravityRequest,
-    accessToken: string
+    accessToken: string,
+    signal?: AbortSignal,
+    proxyUrl?: string
   ): Promise<ReadableStream<Uint8Array>> {
-    const url = `${this.baseUrl}${ANTIGRAVITY_API.paths.streamGenerateContent}`;
-
-    logger.info(`Sending streaming request to ${url}`);
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.buildHeaders(accessToken),
-      body: JSON.stringify(request),
-    });
+    const response = await this.endpointPool.fetch(ANTIGRAVITY_API.paths.streamGenerateContent, (url) => {
+      logger.info(`Sending streaming request to ${url}`);
+      return fetchUpstream(url, {
+        method: "POST",
+        headers: this.buildHeaders(accessToken),
+        body: JSON.stringify(request),
+        signal,
+      }, getTimeoutPolicy(request.model, true), proxyUrl);
+    }, signal);
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -90,23 +95,79 @@ export class UpstreamClient {
     return response.body;
   }
 
+  /**
+   * 统计输入 token 数
+   * countTokens 仅接受 model 和 contents：系统指令作为首条用户内容计入，
+   * 工具定义以 JSON 文本计入（近似值）
+   */
+  async countTokens(
+    request: AntigravityRequest,
+    accessToken: string,
+    signal?: AbortSignal,
+    proxyUrl?: string
+  ): Promise<number> {
+    const contents: GeminiContent[] = [];
+    const systemInstruction = (request.request as Record<string, unknown>).systemInstruction as
+      | { parts: GeminiPart[] }
+      | undefined;
+    if (systemInstruction?.parts.length) {
+      contents.push({ role: "user", parts: systemInstruction.parts });
+    }
+    contents.push(...request.request.contents);
+    if (request.request.tools?.length) {
+      contents.push({ role: "user", parts: [{ text: JSON.stringify(request.request.tools) }] });
+    }
+
+    logger.debug(`Counting tokens for ${request.model}`);
+
+    const response = await this.endpointPool.fetch(ANTIGRAVITY_API.paths.countTokens, (url) =>
+      fetchUpstream(url, {
+        method: "POST",
+        headers: this.buildHeaders(accessToken),
+        body: JSON.stringify({
+          request: {
+            model: `models/${request.model}`,
+            contents,
+          },
+        }),
+        signal,
+      }, getTimeoutPolicy(request.model), proxyUrl), signal);
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`Count tokens error: ${response.status} ${errorText}`);
+      throw new UpstreamError(
+        `Upstream API error: ${response.status}`,
+        response.status,
+        errorText
+      );
+    }
+
+    const data = await response.json();
+    const totalTokens = data.totalTokens ?? data.response?.totalTokens;
+    if (typeof totalTokens !== "number") {
+      throw new UpstreamError("Unexpected countTokens response", 502, JSON.stringify(data));
+    }
+    return totalTokens;
+  }
+
   /**
    * 获取可用模型列表
    */
   async fetchAvailableModels(
     accessToken: string,
-    projectId: string
+    projectId: string,
+    proxyUrl?: string
   ): Promise<string[]> {
-    const url = `${this.baseUrl}${ANTIGRAVITY_API.paths.fetchAvailableModels}`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.buildHeaders(accessToken),
-      body: JSON.stringify({
-        project: projectId,
-        request: {},
-      }),
-    });
+    const response = await this.endpointPool.fetch(ANTIGRAVITY_API.paths.fetchAvailableModels, (url) =>
+      fetchUpstream(url, {
+        method: "POST",
+        headers: this.buildHeaders(accessToken),
+        body: JSON.stringify({
+          project: projectId,
+          request: {},
+        }),
+      }, getTimeoutPolicy(), proxyUrl));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -134,18 +195,18 @@ export class UpstreamClient {
    */
   async loadCodeAssist(
     accessToken: string,
-    projectId: string
+    projectId: string,
+    proxyUrl?: string
   ): Promise<unknown> {
-    const url = `${this.baseUrl}${ANTIGRAVITY_API.paths.loadCodeAssist}`;
-
-    const response = await fetch(url, {
-      method: "POST",
-      headers: this.buildHeaders(accessToken),
-      body: JSON.stringify({
-        project: projectId,
-        request: {},
-      }),
-    });
+    const response = await this.endpointPool.fetch(ANTIGRAVITY_API.paths.loadCodeAssist, (url) =>
+      fetchUpstream(url, {
+        method: "POST",
+        headers: this.buildHeaders(accessToken),
+        body: JSON.stringify({
+          project: projectId,
+          request: {},
+        }),
+      }, getTimeoutPolicy(), proxyUrl));
 
     if (!response.ok) {
       const errorText = await response.text();
@@ -202,8 +263,134 @@ export class UpstreamError extends Error {
   }
 }
 
+/**
+ * 上游请求超时（504，可换账号重试）
+ */
+export class UpstreamTimeoutError extends UpstreamError {
+  constructor(
+    public phase: keyof TimeoutPolicy,
+    timeoutSeconds: number
+  ) {
+    super(`Upstream ${phase} timeout after ${timeoutSeconds}s`, 504, "");
+    this.name = "UpstreamTimeoutError";
+  }
+}
+
+/**
+ * 按超时策略发送上游请求
+ * connect 覆盖发出请求到收到响应头，firstByte / idle 在读取响应体时生效，total 覆盖整个请求；
+ * 超时后中止请求，fetch 或读取响应体时抛出 UpstreamTimeoutError
+ * @param proxyUrl 账号级代理 URL，省略时使用全局配置
+ */
+export async function fetchUpstream(
+  url: string,
+  init: RequestInit,
+  policy: TimeoutPolicy,
+  proxyUrl?: string
+): Promise<Response> {
+  const abortController = createLinkedAbortController(init.signal ?? undefined);
+  let timeoutError: UpstreamTimeoutError | null = null;
+  let onTimeout: ((error: UpstreamTimeoutError) => void) | null = null;
+
+  const arm = (phase: keyof TimeoutPolicy) => {
+    if (policy[phase] <= 0) return undefined;
+    return setTimeout(() => {
+      timeoutError = new UpstreamTimeoutError(phase, policy[phase]);
+      logger.error(`${timeoutError.message}: ${url}`);
+      onTimeout?.(timeoutError);
+      abortController.abort(timeoutError);
+    }, policy[phase] * 1000);
+  };
+
+  const totalTimer = arm("total");
+  let phaseTimer = arm("connect");
+  const clearTimers = () => {
+    clearTimeout(phaseTimer);
+    clearTimeout(totalTimer);
+  };
+
+  let response: Response;
+  try {
+    response = await httpFetch(url, { ...init, signal: abortController.signal }, proxyUrl);
+  } catch (error) {
+    clearTimers();
+    throw timeoutError ?? error;
+  } finally {
+    clearTimeout(phaseTimer);
+  }
+
+  if (!response.body) {
+    clearTimers();
+    return response;
+  }
+
+  // 仅在等待上游数据时计时，下游读取慢不计入 idle
+  const reader = response.body.getReader();
+  let received = false;
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      onTimeout = (error) => controller.error(error);
+    },
+    async pull(controller) {
+      phaseTimer = arm(received ? "idle" : "firstByte");
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          clearTimers();
+          controller.close();
+          return;
+        }
+        received = true;
+        controller.enqueue(value);
+      } catch (error) {
+        clearTimers();
+        controller.error(timeoutError ?? error);
+      } finally {
+        clearTimeout(phaseTimer);
+      }
+    },
+    cancel(reason) {
+      clearTimers();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * 检查流中嵌入的 Google RPC 错误（如 {"error": {"code": 429, "message": ..., "status": ...}}）
+ */
+export function getStreamError(chunk: unknown): UpstreamError | null {
+  const data = chunk as Record<string, unknown> | null;
+  const error = (data?.error ?? (data?.response as Record<string, unknown> | undefined)?.error) as
+    | { code?: number; message?: string; status?: string }
+    | undefined;
+  if (!error || typeof error !== "object") return null;
+
+  const status = typeof error.code === "number" ? error.code : 502;
+  const message = error.message || error.status || "Upstream stream error";
+  return new UpstreamError(`Upstream stream error: ${message}`, status, JSON.stringify(chunk));
+}
+
+/**
+ * 解析流式响应中的单个 JSON 数据，无法解析时抛出 UpstreamError（上游输出被截断或损坏）
+ */
+function parseStreamData(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new UpstreamError(`Malformed upstream stream data: ${error instanceof Error ? error.message : error}`, 502, data);
+  }
+}
+
 /**
  * 解析流式响应 (支持 SSE 和 JSON Array Stream)
+ * 无法解析的数据或被截断的流抛出 UpstreamError，由调用方以错误事件通知客户端
  */
 export async function* parseSSEStream(
   stream: ReadableStream<Uint8Array>
@@ -215,11 +402,23 @@ export async function* parseSSEStream(
   let inString = false;
   let escaped = false;
   let jsonStartIndex = -1;
+  // 已扫描到的位置，跨 chunk 的对象不重复扫描
+  let scanIndex = 0;
 
   try {
     while (true) {
       const { done, value } = await reader.read();
-      if (done) break;
+      if (done) {
+        // 最后一行 SSE 数据可能没有换行符；JSON 对象未闭合说明流被截断
+        const rest = buffer.trim();
+        if (rest.startsWith("data: ")) {
+          const data = rest.slice(6);
+          if (data !== "[DONE]") yield parseStreamData(data);
+        } else if (braceDepth > 0) {
+          throw new UpstreamError("Upstream stream ended in the middle of a JSON object", 502, buffer.slice(jsonStartIndex));
+        }
+        break;
+      }
 
       buffer += decoder.decode(value, { stream: true });
 
@@ -235,9 +434,7 @@ export async function* parseSSEStream(
           if (trimmed.startsWith("data: ")) {
             const data = trimmed.slice(6);
             if (data === "[DONE]") return;
-            try {
-              yield JSON.parse(data);
-            } catch { /* ignore */ }
+            yield parseStreamData(data);
           }
         }
         continue;
@@ -245,7 +442,7 @@ export async function* parseSSEStream(
 
       // 处理 JSON Array Stream (Google API 格式)
       // 简单的状态机提取顶层 JSON 对象
-      let i = 0;
+      let i = scanIndex;
       while (i < buffer.length) {
         const char = buffer[i];
         
@@ -258,11 +455,7 @@ export async function* parseSSEStream(
             if (braceDepth === 0 && jsonStartIndex !== -1) {
               // 找到一个完整的 JSON 对象
               const jsonStr = buffer.substring(jsonStartIndex, i + 1);
-              try {
-                yield JSON.parse(jsonStr);
-              } catch (e) {
-                logger.debug(`Failed to parse extracted JSON: ${e}`);
-              }
+              yield parseStreamData(jsonStr);
               // 移除已处理的部分
               buffer = buffer.substring(i + 1);
               i = -1; // 重置索引，从新 buffer 开头开始
@@ -282,14 +475,11 @@ export async function* parseSSEStream(
         }
         i++;
       }
-      
-      // 如果 buffer 过大且没有找到对象，可能需要清理（防止内存泄漏）
-      // 但对于 JSON Stream，我们必须保留直到找到闭合括号
-      if (buffer.length > 1024 * 1024 * 5) { // 5MB limit
-         logger.error("Buffer too large, clearing");
-         buffer = "";
-         braceDepth = 0;
-         jsonStartIndex = -1;
+      scanIndex = buffer.length;
+
+      // 单个对象超过 5MB 时放弃解析（防止内存无限增长）
+      if (buffer.length > 1024 * 1024 * 5) {
+        throw new UpstreamError("Upstream stream object exceeds 5MB", 502, "");
       }
     }
   } finally {
@@ -297,14 +487,80 @@ export async function* parseSSEStream(
   }
 }
 
+/**
+ * 预读流式响应直到首个有效事件
+ * 有效事件之前出现错误、流为空或超时都会抛出错误，调用方可以在向客户端发送数据前换账号重试；
+ * 返回的迭代器先输出已预读的事件，再继续读取剩余的流
+ * @param isContent 判断事件是否为有效内容
+ * @param getError 从事件中提取错误
+ * @param timeoutMs 等待首个有效事件的超时（毫秒），0 表示不限制
+ */
+export async function primeSSEStream(
+  stream: ReadableStream<Uint8Array>,
+  isContent: (event: unknown) => boolean,
+  getError: (event: unknown) => Error | null,
+  timeoutMs: number
+): Promise<AsyncGenerator<unknown>> {
+  // 经 TransformStream 转接，放弃时可通过 signal 取消上游
+  const abortController = new AbortController();
+  const events = parseSSEStream(
+    stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>(), { signal: abortController.signal })
+  );
+  const buffered: unknown[] = [];
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    if (timeoutMs > 0) {
+      timer = setTimeout(
+        () => reject(new UpstreamError(`Upstream sent no content within ${timeoutMs / 1000}s`, 504, "")),
+        timeoutMs
+      );
+    }
+  });
+
+  try {
+    while (true) {
+      const next = events.next();
+      next.catch(() => {}); // 超时后取消上游时，未完成的读取会被拒绝
+      const result = await Promise.race([next, timeout]);
+
+      if (result.done) {
+        throw new UpstreamError("Upstream stream ended without content", 502, "");
+      }
+
+      const error = getError(result.value);
+      if (error) {
+        throw error;
+      }
+
+      buffered.push(result.value);
+      if (isContent(result.value)) {
+        break;
+      }
+    }
+  } catch (error) {
+    abortController.abort();
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  logger.debug(`Stream primed after ${buffered.length} event(s)`);
+
+  return (async function* () {
+    yield* buffered;
+    yield* events;
+  })();
+}
+
 /**
  * 创建上游客户端单例
  */
 let upstreamClient: UpstreamClient | null = null;
 
-export function getUpstreamClient(useDailyApi: boolean = false): UpstreamClient {
-  if (!upstreamClient || upstreamClient["useDailyApi"] !== useDailyApi) {
-    upstreamClient = new UpstreamClient(useDailyApi);
+export function getUpstreamClient(): UpstreamClient {
+  if (!upstreamClient) {
+    upstreamClient = new UpstreamClient();
   }
   return upstreamClient;
 }
\ No newline at end of file
@@ -0,0 +1,219 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { loadConfig } from "../config.ts";
+import type { TimeoutPolicy } from "../types.ts";
+import {
+  fetchUpstream,
+  getStreamError,
+  parseSSEStream,
+  primeSSEStream,
+  UpstreamError,
+  UpstreamTimeoutError,
+} from "./upstream.ts";
+
+await loadConfig();
+
+/**
+ * 按给定分块构造字节流
+ */
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(events: AsyncIterable<unknown>): Promise<unknown[]> {
+  const result: unknown[] = [];
+  for await (const event of events) result.push(event);
+  return result;
+}
+
+Deno.test("parseSSEStream - parses SSE and JSON array streams", async () => {
+  const cases: Array<{ name: string; chunks: string[]; expected: unknown[] }> = [
+    { name: "sse", chunks: ['data: {"a":1}\n\ndata: {"a":2}\n\n'], expected: [{ a: 1 }, { a: 2 }] },
+    { name: "sse split line", chunks: ['data: {"a"', ':1}\n\n'], expected: [{ a: 1 }] },
+    { name: "sse without trailing newline", chunks: ['data: {"a":1}\n\ndata: {"a":2}'], expected: [{ a: 1 }, { a: 2 }] },
+    { name: "sse [DONE]", chunks: ['data: {"a":1}\n\ndata: [DONE]\n\ndata: {"a":2}\n\n'], expected: [{ a: 1 }] },
+    { name: "json array", chunks: ['[{"a":1},\n{"a":"}"}]'], expected: [{ a: 1 }, { a: "}" }] },
+    { name: "json array split object", chunks: ['[{"a":{"b"', ':1}},', '{"a":2}]'], expected: [{ a: { b: 1 } }, { a: 2 }] },
+  ];
+
+  for (const { name, chunks, expected } of cases) {
+    assertEquals(await collect(parseSSEStream(streamOf(chunks))), expected, name);
+  }
+});
+
+Deno.test("parseSSEStream - malformed or truncated data raises UpstreamError", async () => {
+  const cases: Array<{ name: string; chunks: string[]; message: string }> = [
+    { name: "malformed sse line", chunks: ['data: {"a":1}\n\ndata: {"a":\n\n'], message: "Malformed upstream stream data" },
+    { name: "truncated sse line", chunks: ['data: {"a":1}\n\ndata: {"a":'], message: "Malformed upstream stream data" },
+    { name: "malformed json object", chunks: ['[{"a":1},{"a":tru}]'], message: "Malformed upstream stream data" },
+    { name: "truncated json array", chunks: ['[{"a":1},{"a":'], message: "ended in the middle of a JSON object" },
+  ];
+
+  for (const { name, chunks, message } of cases) {
+    const received: unknown[] = [];
+    await assertRejects(
+      async () => {
+        for await (const event of parseSSEStream(streamOf(chunks))) received.push(event);
+      },
+      UpstreamError,
+      message,
+      name
+    );
+    assertEquals(received, [{ a: 1 }], name);
+  }
+});
+Deno.test("getStreamError - detects embedded Google RPC errors", () => {
+  const cases = [
+    { name: "content", chunk: { response: { candidates: [] } }, expected: null },
+    {
+      name: "top-level error",
+      chunk: { error: { code: 429, message: "Resource exhausted", status: "RESOURCE_EXHAUSTED" } },
+      expected: { status: 429, message: "Upstream stream error: Resource exhausted" },
+    },
+    {
+      name: "wrapped error without code",
+      chunk: { response: { error: { status: "INTERNAL" } } },
+      expected: { status: 502, message: "Upstream stream error: INTERNAL" },
+    },
+  ];
+
+  for (const { name, chunk, expected } of cases) {
+    const error = getStreamError(chunk);
+    assertEquals(error && { status: error.statusCode, message: error.message }, expected, name);
+  }
+});
+Deno.test("primeSSEStream - buffers events until the first content and then replays them", async () => {
+  const isContent = (event: unknown) => (event as { content?: boolean }).content === true;
+  const events = await primeSSEStream(
+    streamOf(['data: {"status":1}\n\n', 'data: {"content":true}\n\n', 'data: {"status":2}\n\n']),
+    isContent,
+    () => null,
+    1000
+  );
+
+  assertEquals(await collect(events), [{ status: 1 }, { content: true }, { status: 2 }]);
+});
+
+Deno.test("primeSSEStream - fails before content so the caller can retry", async () => {
+  const isContent = (event: unknown) => (event as { content?: boolean }).content === true;
+  const getError = (event: unknown) => (event as { error?: string }).error ? new UpstreamError("embedded", 429, "") : null;
+  const cases = [
+    { name: "no content", stream: () => streamOf(['data: {"status":1}\n\n']), status: 502, message: "ended without content" },
+    { name: "error event", stream: () => streamOf(['data: {"error":"x"}\n\n']), status: 429, message: "embedded" },
+    // 不发送任何数据的流，只能等待超时
+    { name: "timeout", stream: () => new ReadableStream<Uint8Array>(), status: 504, message: "no content within" },
+  ];
+
+  for (const { name, stream, status, message } of cases) {
+    const error = await assertRejects(() => primeSSEStream(stream(), isContent, getError, 20), UpstreamError, message, name);
+    assertEquals((error as UpstreamError).statusCode, status, name);
+  }
+});
+/**
+ * 临时替换 fetch：按 respond 返回响应，响应体在请求中止时报错（与真实 fetch 一致）
+ * @param respond 返回 null 时请求一直挂起直到中止
+ */
+async function withSlowUpstream<T>(
+  respond: (signal: AbortSignal) => ReadableStream<Uint8Array> | null,
+  fn: () => Promise<T>
+): Promise<T> {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    const signal = init!.signal!;
+    return new Promise((resolve, reject) => {
+      const abort = () => reject(new DOMException("aborted", "AbortError"));
+      signal.addEventListener("abort", abort, { once: true });
+      const body = respond(signal);
+      if (body) {
+        signal.removeEventListener("abort", abort);
+        resolve(new Response(body));
+      }
+    });
+  };
+  try {
+    return await fn();
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+/**
+ * 依次发送给定分块（间隔 intervalMs，repeat 时循环发送），之后保持连接；请求中止时报错
+ */
+function slowBody(signal: AbortSignal, chunks: string[], intervalMs = 0, repeat = false): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | undefined;
+  return new ReadableStream({
+    start(controller) {
+      let index = 0;
+      const send = () => {
+        if (index < chunks.length || repeat) controller.enqueue(encoder.encode(chunks[index++ % chunks.length]));
+      };
+      if (intervalMs > 0) {
+        timer = setInterval(send, intervalMs);
+      } else {
+        chunks.forEach(send);
+      }
+      signal.addEventListener("abort", () => {
+        clearInterval(timer);
+        controller.error(new DOMException("aborted", "AbortError"));
+      }, { once: true });
+    },
+    cancel() {
+      clearInterval(timer);
+    },
+  });
+}
+
+Deno.test("fetchUpstream - each timeout phase aborts the request with UpstreamTimeoutError", async () => {
+  const policy: TimeoutPolicy = { connect: 1, firstByte: 1, idle: 1, total: 5 };
+  const cases: Array<{
+    phase: keyof TimeoutPolicy;
+    policy: TimeoutPolicy;
+    respond: (signal: AbortSignal) => ReadableStream<Uint8Array> | null;
+  }> = [
+    { phase: "connect", policy: { ...policy, connect: 0.02 }, respond: () => null },
+    { phase: "firstByte", policy: { ...policy, firstByte: 0.02 }, respond: (signal) => slowBody(signal, []) },
+    { phase: "idle", policy: { ...policy, idle: 0.02 }, respond: (signal) => slowBody(signal, ["data: 1\n\n"]) },
+    { phase: "total", policy: { ...policy, total: 0.05 }, respond: (signal) => slowBody(signal, ["data: 1\n\n"], 5, true) },
+  ];
+
+  for (const { phase, policy, respond } of cases) {
+    const error = await withSlowUpstream(respond, () =>
+      assertRejects(
+        async () => {
+          const response = await fetchUpstream("https://upstream.example.com", {}, policy);
+          await response.text();
+        },
+        UpstreamTimeoutError,
+        `Upstream ${phase} timeout`,
+        phase
+      )
+    );
+    assertEquals([(error as UpstreamTimeoutError).phase, (error as UpstreamTimeoutError).statusCode], [phase, 504]);
+  }
+});
+
+Deno.test("fetchUpstream - a slow downstream reader does not trigger the idle timeout", async () => {
+  const policy: TimeoutPolicy = { connect: 1, firstByte: 1, idle: 0.02, total: 5 };
+  const text = await withSlowUpstream(
+    () => streamOf(["a", "b"]),
+    async () => {
+      const response = await fetchUpstream("https://upstream.example.com", {}, policy);
+      const reader = response.body!.getReader();
+      const decoder = new TextDecoder();
+      let text = decoder.decode((await reader.read()).value);
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      for (let result = await reader.read(); !result.done; result = await reader.read()) {
+        text += decoder.decode(result.value);
+      }
+      return text;
+    }
+  );
+  assertEquals(text, "ab");
+});
\ No newline at end of file
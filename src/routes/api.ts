@@ -1,10 +1,56 @@
 import { Hono } from "hono";
-import type { ChatCompletionRequest, Model } from "../types.ts";
+import type {
+  AnthropicMessagesRequest,
+  ChatCompletionRequest,
+  ChatCompletionResponse,
+  ChatMessage,
+  CompletionRequest,
+  GeminiGenerateContentRequest,
+  ImageGenerationRequest,
+  Model,
+  ResponsesItem,
+  ResponsesRequest,
+} from "../types.ts";
 import { TokenManager } from "../auth/token_manager.ts";
 import { AntigravityProxyHandler } from "../proxy/handler.ts";
 import { CodexProxyHandler } from "../proxy/codex_handler.ts";
+import { UpstreamError } from "../proxy/upstream.ts";
+import { estimateCodexTokens } from "../proxy/codex_translator.ts";
+import { getRequestSessionId } from "../proxy/translator.ts";
+import {
+  anthropicErrorResponse,
+  createAnthropicStream,
+  translateAnthropicToOpenAI,
+  translateErrorToAnthropic,
+  translateOpenAIToAnthropic,
+} from "../proxy/anthropic.ts";
+import {
+  createResponsesStream,
+  generateItemId,
+  getResponsesStore,
+  normalizeResponsesInput,
+  translateChatToResponses,
+  translateResponsesToChat,
+} from "../proxy/responses.ts";
+import {
+  createCompletionsStream,
+  generateCompletionId,
+  normalizePrompts,
+  translateChatToCompletion,
+  translateCompletionToChat,
+} from "../proxy/completions.ts";
+import {
+  buildImageChatRequest,
+  buildImagesResponse,
+  extractGeneratedImages,
+  fileToDataUrl,
+  type ImageEditRequest,
+  readGeneratedImage,
+} from "../proxy/images.ts";
 import {
   getConfig,
+  getAntigravityModel,
+  parseModelSuffix,
   MODEL_ALIASES,
   getModelAlias,
   isCodexModel,
@@ -13,7 +59,7 @@ import {
   CODEX_MODELS,
   ANTIGRAVITY_MODELS,
 } from "../config.ts";
-import { errorResponse, jsonResponse, log } from "../utils/http.ts";
+import { errorResponse, InvalidRequestError, jsonResponse, log } from "../utils/http.ts";
 import { fetchQuota } from "../auth/quota.ts";
 
 /**
@@ -24,6 +70,98 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
   const antigravityHandler = new AntigravityProxyHandler(tokenManager);
   const codexHandler = new CodexProxyHandler(tokenManager);
 
+  /**
+   * 根据模型选择处理器
+   * @param signal 客户端请求的中止信号，断开时取消上游请求
+   */
+  async function dispatchChatCompletion(body: ChatCompletionRequest, signal?: AbortSignal): Promise<Response> {
+    const model = body.model;
+
+    if (isCodexModel(model)) {
+      log("info", `Routing to Codex handler for model: ${model}`);
+      return await codexHandler.handleChatCompletion(body, signal);
+    } else if (isAntigravityModel(model)) {
+      log("info", `Routing to Antigravity handler for model: ${model}`);
+      return await antigravityHandler.handleChatCompletion(body, signal);
+    }
+
+    // 默认使用 Antigravity
+    log("info", `Unknown model ${model}, defaulting to Antigravity handler`);
+    return await antigravityHandler.handleChatCompletion(body, signal);
+  }
+
+  /**
+   * 统计聊天请求的输入 token 数
+   * Antigravity 使用上游 countTokens；Codex 没有对应接口，按字符数估算
+   */
+  async function countChatTokens(body: ChatCompletionRequest, signal?: AbortSignal): Promise<number> {
+    if (isCodexModel(body.model)) {
+      return estimateCodexTokens(body);
+    }
+    return await antigravityHandler.countTokens(body, signal);
+  }
+
+  /**
+   * 生成图片（每张图片一次上游请求）并构建图片接口响应
+   * @param images 待编辑的图片 URL
+   * @param mask 遮罩图片 URL
+   * @param requestUrl 用于推断 response_format=url 时的地址前缀
+   * @param signal 客户端请求的中止信号
+   */
+  async function handleImageRequest(
+    body: ImageGenerationRequest,
+    images: string[],
+    mask: string | undefined,
+    requestUrl: string,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (!body.prompt) {
+      return errorResponse(400, "prompt is required", "invalid_request_error");
+    }
+
+    const n = body.n ?? 1;
+    if (!Number.isInteger(n) || n < 1 || n > 10) {
+      return errorResponse(400, "n must be an integer between 1 and 10", "invalid_request_error");
+    }
+
+    const chatRequest = buildImageChatRequest(body, images, mask);
+    log("info", `Image request: model=${chatRequest.model}, n=${n}, images=${images.length}`);
+
+    const chatResponses: ChatCompletionResponse[] = [];
+    for (let i = 0; i < n; i++) {
+      chatResponses.push(await antigravityHandler.generateImages(chatRequest, signal));
+    }
+
+    const { images: generated, text, blocked } = extractGeneratedImages(chatResponses);
+    if (generated.length === 0) {
+      if (blocked) {
+        return errorResponse(400, "Image generation was blocked by the safety filter", "invalid_request_error");
+      }
+      return errorResponse(
+        502,
+        `Upstream returned no image${text ? `: ${text.slice(0, 200)}` : ""}`,
+        "upstream_error"
+      );
+    }
+
+    const baseUrl = getConfig().images?.publicBaseUrl || new URL(requestUrl).origin;
+    return jsonResponse(await buildImagesResponse(generated, body.response_format, baseUrl));
+  }
+
+  /**
+   * 图片接口错误响应
+   */
+  function imageErrorResponse(error: unknown): Response {
+    if (error instanceof InvalidRequestError) {
+      return errorResponse(400, error.message, "invalid_request_error");
+    }
+    if (error instanceof UpstreamError) {
+      return errorResponse(error.statusCode, error.message, "upstream_error");
+    }
+    log("error", `Image error: ${error}`);
+    return errorResponse(500, `Internal server error: ${error}`);
+  }
+
   // ==================== OpenAI兼容API ====================
 
   /**
@@ -39,24 +177,10 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
       }
 
       const body = await c.req.json() as ChatCompletionRequest;
-      const model = body.model;
       
-      log("info", `Chat completion request: model=${model}, stream=${body.stream}`);
+      log("info", `Chat completion request: model=${body.model}, stream=${body.stream}`);
 
-      // 根据模型选择处理器
-      let response: Response;
-      
-      if (isCodexModel(model)) {
-        log("info", `Routing to Codex handler for model: ${model}`);
-        response = await codexHandler.handleChatCompletion(body);
-      } else if (isAntigravityModel(model)) {
-        log("info", `Routing to Antigravity handler for model: ${model}`);
-        response = await antigravityHandler.handleChatCompletion(body);
-      } else {
-        // 默认使用 Antigravity
-        log("info", `Unknown model ${model}, defaulting to Antigravity handler`);
-        response = await antigravityHandler.handleChatCompletion(body);
-      }
+      const response = await dispatchChatCompletion(body, c.req.raw.signal);
       
       // 复制response headers
       for (const [key, value] of response.headers.entries()) {
@@ -70,6 +194,384 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
     }
   });
 
+  /**
+   * 旧版文本补全接口
+   * 每个 prompt 转换为一次聊天完成请求，复用两种处理器
+   */
+  app.post("/v1/completions", async (c) => {
+    try {
+      const authHeader = c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as CompletionRequest;
+      const prompts = normalizePrompts(body.prompt);
+
+      log("info", `Completion request: model=${body.model}, stream=${body.stream}, prompts=${prompts.length}`);
+
+      const completionId = generateCompletionId();
+
+      if (body.stream) {
+        if (prompts.length > 1) {
+          return errorResponse(400, "Streaming supports a single prompt", "invalid_request_error");
+        }
+
+        const response = await dispatchChatCompletion(translateCompletionToChat(body, prompts[0]), c.req.raw.signal);
+        if (!response.ok) {
+          return response;
+        }
+
+        return new Response(createCompletionsStream(response, body, prompts[0], completionId), {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+          },
+        });
+      }
+
+      const chatResponses: ChatCompletionResponse[] = [];
+      for (const prompt of prompts) {
+        const response = await dispatchChatCompletion(translateCompletionToChat(body, prompt), c.req.raw.signal);
+        if (!response.ok) {
+          return response;
+        }
+        chatResponses.push(await response.json() as ChatCompletionResponse);
+      }
+
+      return jsonResponse(translateChatToCompletion(chatResponses, body, prompts, completionId));
+    } catch (error) {
+      if (error instanceof InvalidRequestError) {
+        return errorResponse(400, error.message, "invalid_request_error");
+      }
+      log("error", `Completion error: ${error}`);
+      return errorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
+  /**
+   * Responses 接口
+   * Codex 模型直接转发，Antigravity 模型转换为聊天完成请求
+   */
+  app.post("/v1/responses", async (c) => {
+    try {
+      const authHeader = c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as ResponsesRequest;
+      if (!body.input || (Array.isArray(body.input) && body.input.length === 0)) {
+        return errorResponse(400, "input is required", "invalid_request_error");
+      }
+
+      log("info", `Responses request: model=${body.model}, stream=${body.stream}`);
+
+      if (isCodexModel(body.model)) {
+        log("info", `Routing to Codex handler for model: ${body.model}`);
+        return await codexHandler.handleResponses(body, c.req.raw.signal);
+      }
+
+      // 展开 previous_response_id 对应的历史记录
+      const store = getResponsesStore();
+      let history: ResponsesItem[] = [];
+      if (body.previous_response_id) {
+        const stored = store.getHistory(body.previous_response_id);
+        if (!stored) {
+          return errorResponse(
+            404,
+            `Previous response with id '${body.previous_response_id}' not found.`,
+            "invalid_request_error"
+          );
+        }
+        history = stored;
+      }
+
+      const inputItems = normalizeResponsesInput(body.input);
+      const chatRequest = translateResponsesToChat(body, [...history, ...inputItems]);
+      const response = await antigravityHandler.handleChatCompletion(chatRequest, c.req.raw.signal);
+
+      if (!response.ok) {
+        return response;
+      }
+
+      const responseId = generateItemId("resp");
+      const saveHistory = (output: ResponsesItem[]) => {
+        store.save(responseId, [...history, ...inputItems, ...output]);
+      };
+
+      if (body.stream) {
+        return new Response(createResponsesStream(response, body, responseId, saveHistory), {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+          },
+        });
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      const result = translateChatToResponses(data, body, responseId);
+      saveHistory(result.output);
+      return jsonResponse(result);
+    } catch (error) {
+      if (error instanceof InvalidRequestError) {
+        return errorResponse(400, error.message, "invalid_request_error");
+      }
+      log("error", `Responses error: ${error}`);
+      return errorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
+  /**
+   * Token 统计接口
+   * 接受聊天消息（messages）或文本（prompt），返回输入 token 数和模型上下文长度
+   */
+  app.post("/v1/tokenize", async (c) => {
+    try {
+      const authHeader = c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as { model: string; messages?: ChatMessage[]; prompt?: string };
+      const messages: ChatMessage[] | undefined = typeof body.prompt === "string"
+        ? [{ role: "user", content: body.prompt }]
+        : body.messages;
+      if (!body.model || !messages || messages.length === 0) {
+        return errorResponse(400, "model and messages (or prompt) are required", "invalid_request_error");
+      }
+
+      const count = await countChatTokens({ model: body.model, messages }, c.req.raw.signal);
+      const maxModelLen = isCodexModel(body.model)
+        ? CODEX_MODELS.find((m) => m.id === parseModelSuffix(body.model).model)?.contextLength
+        : getAntigravityModel(body.model)?.inputTokenLimit;
+
+      return jsonResponse({ model: body.model, count, max_model_len: maxModelLen ?? null });
+    } catch (error) {
+      if (error instanceof InvalidRequestError) {
+        return errorResponse(400, error.message, "invalid_request_error");
+      }
+      if (error instanceof UpstreamError) {
+        return errorResponse(error.statusCode, error.message, "upstream_error");
+      }
+      log("error", `Tokenize error: ${error}`);
+      return errorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
+  // ==================== 图片生成API ====================
+
+  /**
+   * 图片生成接口
+   * 使用 Antigravity 图片模型，非图片模型名（如 dall-e-3）映射为配置的模型
+   */
+  app.post("/v1/images/generations", async (c) => {
+    try {
+      const authHeader = c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as ImageGenerationRequest;
+      return await handleImageRequest(body, [], undefined, c.req.url, c.req.raw.signal);
+    } catch (error) {
+      return imageErrorResponse(error);
+    }
+  });
+
+  /**
+   * 图片编辑接口
+   * 支持 multipart/form-data（image / image[] / mask 文件）和 JSON（images / mask 的 image_url）
+   */
+  app.post("/v1/images/edits", async (c) => {
+    try {
+      const authHeader = c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      let body: ImageEditRequest;
+      let images: string[];
+      let mask: string | undefined;
+
+      if (c.req.header("Content-Type")?.includes("application/json")) {
+        body = await c.req.json() as ImageEditRequest;
+        images = (body.images || []).map((image) => image.image_url).filter(Boolean);
+        mask = body.mask?.image_url;
+      } else {
+        const form = await c.req.formData();
+        const field = (name: string) => {
+          const value = form.get(name);
+          return typeof value === "string" && value ? value : undefined;
+        };
+
+        body = {
+          prompt: field("prompt") || "",
+          model: field("model"),
+          n: field("n") ? parseInt(field("n")!, 10) : undefined,
+          size: field("size"),
+          quality: field("quality"),
+          response_format: field("response_format") as ImageEditRequest["response_format"],
+          aspect_ratio: field("aspect_ratio"),
+          user: field("user"),
+        };
+
+        const files = [...form.getAll("image"), ...form.getAll("image[]")]
+          .filter((value): value is File => value instanceof File);
+        images = await Promise.all(files.map(fileToDataUrl));
+
+        const maskFile = form.get("mask");
+        mask = maskFile instanceof File ? await fileToDataUrl(maskFile) : undefined;
+      }
+
+      if (images.length === 0) {
+        return errorResponse(400, "image is required", "invalid_request_error");
+      }
+
+      return await handleImageRequest(body, images, mask, c.req.url, c.req.raw.signal);
+    } catch (error) {
+      return imageErrorResponse(error);
+    }
+  });
+
+  /**
+   * 读取生成的图片（response_format=url）
+   * 文件名为随机ID，无需API Key，便于直接在浏览器或 markdown 中引用
+   */
+  app.get("/v1/images/files/:name", async (c) => {
+    try {
+      const image = await readGeneratedImage(c.req.param("name"));
+      if (!image) {
+        return errorResponse(404, "Image not found");
+      }
+
+      return new Response(image.data, {
+        headers: {
+          "Content-Type": image.mimeType,
+          "Cache-Control": "public, max-age=86400",
+        },
+      });
+    } catch (error) {
+      return imageErrorResponse(error);
+    }
+  });
+
+  // ==================== Anthropic兼容API ====================
+
+  /**
+   * Anthropic Messages 接口
+   * 转换为聊天完成请求后复用同一套处理器
+   */
+  app.post("/v1/messages", async (c) => {
+    try {
+      // Anthropic 客户端使用 x-api-key 传递密钥
+      const authHeader = c.req.header("x-api-key") || c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return anthropicErrorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as AnthropicMessagesRequest;
+      if (!body.messages || body.messages.length === 0) {
+        return anthropicErrorResponse(400, "messages is required");
+      }
+
+      log("info", `Anthropic messages request: model=${body.model}, stream=${body.stream}`);
+
+      const chatRequest = translateAnthropicToOpenAI(body);
+      const sessionId = await getRequestSessionId(chatRequest);
+      const response = await dispatchChatCompletion(chatRequest, c.req.raw.signal);
+
+      if (!response.ok) {
+        return await translateErrorToAnthropic(response);
+      }
+
+      if (body.stream) {
+        return new Response(createAnthropicStream(response, body.model, sessionId), {
+          headers: {
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+          },
+        });
+      }
+
+      const data = await response.json() as ChatCompletionResponse;
+      return jsonResponse(translateOpenAIToAnthropic(data, body.model, sessionId));
+    } catch (error) {
+      log("error", `Anthropic messages error: ${error}`);
+      return anthropicErrorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
+  /**
+   * Anthropic Token 统计接口
+   */
+  app.post("/v1/messages/count_tokens", async (c) => {
+    try {
+      const authHeader = c.req.header("x-api-key") || c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return anthropicErrorResponse(401, "Invalid API key");
+      }
+
+      const body = await c.req.json() as AnthropicMessagesRequest;
+      if (!body.messages || body.messages.length === 0) {
+        return anthropicErrorResponse(400, "messages is required");
+      }
+
+      const inputTokens = await countChatTokens(translateAnthropicToOpenAI(body), c.req.raw.signal);
+      return jsonResponse({ input_tokens: inputTokens });
+    } catch (error) {
+      if (error instanceof InvalidRequestError) {
+        return anthropicErrorResponse(400, error.message);
+      }
+      if (error instanceof UpstreamError) {
+        return anthropicErrorResponse(error.statusCode, error.message);
+      }
+      log("error", `Anthropic count tokens error: ${error}`);
+      return anthropicErrorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
+  // ==================== Gemini原生API ====================
+
+  /**
+   * Gemini generateContent / streamGenerateContent 接口
+   * 路径形如 /v1beta/models/gemini-2.5-pro:streamGenerateContent
+   */
+  app.post("/v1beta/models/:action", async (c) => {
+    try {
+      // Google GenAI SDK 使用 x-goog-api-key 或 ?key= 传递密钥
+      const authHeader = c.req.header("x-goog-api-key") ||
+                         c.req.query("key") ||
+                         c.req.header("Authorization");
+      if (!validateApiKey(authHeader)) {
+        return errorResponse(401, "Invalid API key");
+      }
+
+      const action = c.req.param("action");
+      const separator = action.lastIndexOf(":");
+      const model = separator > 0 ? action.slice(0, separator) : action;
+      const method = separator > 0 ? action.slice(separator + 1) : "";
+
+      if (method !== "generateContent" && method !== "streamGenerateContent") {
+        return errorResponse(404, `Unsupported method: ${method || action}`);
+      }
+
+      const body = await c.req.json() as GeminiGenerateContentRequest;
+      const stream = method === "streamGenerateContent";
+      const sse = c.req.query("alt") === "sse";
+
+      log("info", `Gemini native request: model=${model}, method=${method}`);
+
+      return await antigravityHandler.handleGeminiNative(model, body, stream, sse, c.req.raw.signal);
+    } catch (error) {
+      log("error", `Gemini native error: ${error}`);
+      return errorResponse(500, `Internal server error: ${error}`);
+    }
+  });
+
   /**
    * 模型列表接口
    */
@@ -185,7 +687,7 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
     }
 
     try {
-      const { quota, projectId } = await fetchQuota(account.token.access_token, account.email);
+      const { quota, projectId } = await fetchQuota(account.token.access_token, account.email, account.proxy_url);
       
       // 更新账号信息
       account.quota = quota;
@@ -221,7 +723,7 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
       const chunk = accounts.slice(i, i + CONCURRENCY);
       await Promise.all(chunk.map(async (account) => {
         try {
-          const { quota, projectId } = await fetchQuota(account.token.access_token, account.email);
+          const { quota, projectId } = await fetchQuota(account.token.access_token, account.email, account.proxy_url);
           account.quota = quota;
           if (projectId) {
             account.token.project_id = projectId;
@@ -257,6 +759,11 @@ export function createApiRoutes(tokenManager: TokenManager): Hono {
       description: "OpenAI-compatible API proxy for Antigravity and Codex",
       endpoints: {
         chat: "/v1/chat/completions",
+        completions: "/v1/completions",
+        images: "/v1/images/generations",
+        responses: "/v1/responses",
+        messages: "/v1/messages",
+        gemini: "/v1beta/models/{model}:generateContent",
         models: "/v1/models",
         health: "/health",
         management: "/manage/*",
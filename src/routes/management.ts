@@ -4,8 +4,17 @@ import { TokenManager } from "../auth/token_manager.ts";
 import { AccountStorage } from "../auth/store.ts";
 import { AntigravityAuth } from "../auth/antigravity.ts";
 import { CodexAuth } from "../auth/codex.ts";
-import { getConfig } from "../config.ts";
-import { errorResponse, jsonResponse, log } from "../utils/http.ts";
+import { ANTIGRAVITY_API, getConfig } from "../config.ts";
+import {
+  errorResponse,
+  jsonResponse,
+  log,
+  parseProxyUrl,
+  ProxyConfigError,
+  testProxyConnectivity,
+} from "../utils/http.ts";
+import { getRequestStats } from "../proxy/stats.ts";
+import { getEndpointPool } from "../proxy/endpoints.ts";
 import { DASHBOARD_HTML, CODEX_CALLBACK_HTML } from "../views/dashboard.ts";
 
 /**
@@ -169,6 +178,76 @@ export function createManagementRoutes(
     });
   });
 
+  /**
+   * 设置账号级代理
+   * proxy_url 为 null 或空字符串时清除，改用全局代理
+   */
+  app.put("/accounts/:type/:id/proxy", async (c) => {
+    const type = c.req.param("type");
+    const id = c.req.param("id");
+    const account = type === "antigravity"
+      ? storage.getAntigravityAccount(id)
+      : type === "codex"
+      ? storage.getCodexAccount(id)
+      : undefined;
+
+    if (!account) {
+      return errorResponse(404, `Account ${id} not found`);
+    }
+
+    const body = await c.req.json().catch(() => ({})) as { proxy_url?: string | null };
+    const proxyUrl = body.proxy_url?.trim() || undefined;
+
+    if (proxyUrl) {
+      try {
+        parseProxyUrl(proxyUrl);
+      } catch (error) {
+        const message = error instanceof ProxyConfigError ? error.message : "Invalid proxy URL";
+        return errorResponse(400, message, "invalid_request_error");
+      }
+    }
+
+    account.proxy_url = proxyUrl;
+    account.updated_at = new Date().toISOString();
+    if (type === "antigravity") {
+      await storage.saveAntigravityAccount(account as AntigravityAccount);
+    } else {
+      await storage.saveCodexAccount(account as CodexAccount);
+    }
+    log("info", `${proxyUrl ? "Set" : "Cleared"} proxy for ${type} account: ${account.email}`);
+
+    return jsonResponse({
+      success: true,
+      proxy: maskProxyUrl(proxyUrl),
+    });
+  });
+
+  // ==================== 代理 ====================
+
+  /**
+   * 测试代理连通性
+   * 未指定 proxy_url 时测试全局代理（未配置则为直连）
+   */
+  app.post("/proxy/test", async (c) => {
+    const body = await c.req.json().catch(() => ({})) as { proxy_url?: string; url?: string };
+    const upstreamProxy = getConfig().upstreamProxy;
+    const proxyUrl = body.proxy_url?.trim() || (upstreamProxy?.enabled ? upstreamProxy.url : undefined);
+    const targetUrl = body.url || ANTIGRAVITY_API.baseUrls[2];
+
+    try {
+      const result = await testProxyConnectivity(proxyUrl, targetUrl);
+      log("info", `Proxy test ${maskProxyUrl(proxyUrl) || "direct"} -> ${targetUrl}: ${result.success ? "ok" : result.error}`);
+      return jsonResponse({
+        ...result,
+        proxy: maskProxyUrl(proxyUrl),
+        url: targetUrl,
+      });
+    } catch (error) {
+      const message = error instanceof ProxyConfigError ? error.message : "Invalid proxy URL";
+      return errorResponse(400, message, "invalid_request_error");
+    }
+  });
+
   // ==================== OAuth登录 ====================
 
   /**
@@ -339,6 +418,8 @@ export function createManagementRoutes(
       status: "running",
       version: "1.0.0",
       accounts: stats,
+      requests: getRequestStats().getStats(),
+      endpoints: getEndpointPool().getStatus(),
       config: {
         host: config.host,
         port: config.port,
@@ -400,6 +481,7 @@ function sanitizeAccount(account: AntigravityAccount): Record<string, unknown> {
     hasProjectId: !!account.token.project_id,
     tokenExpiry: new Date(account.token.expiry_timestamp * 1000).toISOString(),
     isExpired: Date.now() > account.token.expiry_timestamp * 1000,
+    proxy: maskProxyUrl(account.proxy_url),
     created_at: account.created_at,
     updated_at: account.updated_at,
     quota: account.quota,
@@ -416,11 +498,26 @@ function sanitizeCodexAccount(account: CodexAccount): Record<string, unknown> {
     hasAccountId: !!account.token.account_id,
     tokenExpiry: new Date(account.token.expiry_timestamp * 1000).toISOString(),
     isExpired: Date.now() > account.token.expiry_timestamp * 1000,
+    proxy: maskProxyUrl(account.proxy_url),
     created_at: account.created_at,
     updated_at: account.updated_at,
   };
 }
 
+/**
+ * 隐藏代理 URL 中的密码
+ */
+function maskProxyUrl(proxyUrl?: string): string | undefined {
+  if (!proxyUrl) return undefined;
+  try {
+    const url = new URL(proxyUrl);
+    if (url.password) url.password = "***";
+    return url.toString().replace(/\/$/, "");
+  } catch {
+    return proxyUrl;
+  }
+}
+
 /**
  * 辅助函数：创建 Antigravity 账号对象
  */
@@ -35,6 +35,8 @@ export interface AntigravityAccount {
     project_id?: string;
   };
   quota?: QuotaData;
+  // 账号级出站代理（http/https/socks5），覆盖全局 upstreamProxy
+  proxy_url?: string;
   created_at: string;
   updated_at: string;
 }
@@ -72,6 +74,8 @@ export interface CodexAccount {
     expiry_timestamp: number;
     account_id?: string;
   };
+  // 账号级出站代理（http/https/socks5），覆盖全局 upstreamProxy
+  proxy_url?: string;
   created_at: string;
   updated_at: string;
 }
@@ -175,6 +179,33 @@ export interface AppConfig {
   // 请求配置
   requestTimeout: number;
   maxRetries: number;
+
+  // 上游请求超时策略，未设置 total 时非流式请求使用 requestTimeout，流式请求不限制
+  timeouts?: TimeoutsConfig;
+
+  // 多媒体内容（远程图片、音频、文件）
+  media?: MediaConfig;
+
+  // 图片生成
+  images?: ImagesConfig;
+
+  // 严格结构化输出校验失败时的重新生成次数
+  structuredOutputRetries?: number;
+
+  // 上游不支持的参数：reject 返回 400，ignore 忽略并添加 Warning 响应头
+  unsupportedParams?: "reject" | "ignore";
+
+  // 对话中途的 system 消息：system_instruction 合并到系统指令，inline 作为用户消息保留在原位置
+  systemMessagePlacement?: "system_instruction" | "inline";
+
+  // 发送前通过 countTokens 检查输入是否超出模型上下文长度
+  contextLengthCheck?: boolean;
+
+  // Antigravity 地址失败（5xx 或网络错误）后的冷却时间（秒），冷却期间优先使用其他地址
+  endpointCooldown?: number;
+
+  // 流式请求等待首个有效内容的超时（秒），超时或首个事件为错误时换账号重试，0 表示不限制
+  firstChunkTimeout?: number;
   
   // 远程管理
   remoteManagement?: {
@@ -186,6 +217,62 @@ export interface AppConfig {
   debug: boolean;
 }
 
+/**
+ * 上游请求超时策略（秒，0 表示不限制）
+ */
+export interface TimeoutPolicy {
+  // 发出请求到收到响应头（非流式请求的响应头通常在生成完成后才返回）
+  connect: number;
+  // 收到响应头到首个响应体数据
+  firstByte: number;
+  // 响应体两段数据之间的最长间隔
+  idle: number;
+  // 整个请求，含读取响应体
+  total: number;
+}
+
+/**
+ * 超时配置（全局策略 + 按模型覆盖）
+ */
+export interface TimeoutsConfig extends Partial<TimeoutPolicy> {
+  // 键为模型名称（别名或上游名称）
+  models?: Record<string, Partial<TimeoutPolicy>>;
+}
+
+/**
+ * 多媒体内容配置
+ */
+export interface MediaConfig {
+  // 是否允许下载远程 URL
+  fetchRemote: boolean;
+  // 单个媒体的最大字节数
+  maxBytes: number;
+  // 允许的 MIME 类型（以 / 结尾表示前缀匹配）
+  allowedMimeTypes: string[];
+  // 下载超时（秒）
+  fetchTimeout: number;
+  // 远程资源缓存
+  cacheEnabled: boolean;
+  cacheTtl: number;
+  cacheMaxEntries: number;
+}
+
+/**
+ * 图片生成配置
+ */
+export interface ImagesConfig {
+  // 聊天完成中生成图片的返回方式：markdown 以 data URL 写入 content，array 放入 message.images
+  chatOutput: "markdown" | "array";
+  // /v1/images 接口使用的模型
+  model: string;
+  // response_format=url 时返回的地址前缀，默认使用请求地址
+  publicBaseUrl?: string;
+  // response_format=url 保存的图片的有效期（秒），过期后删除，0 表示不限制
+  fileTtl: number;
+  // 最多保存的图片数，超出时删除最旧的，0 表示不限制
+  maxFiles: number;
+}
+
 /**
  * 账号存储
  */
@@ -203,6 +290,9 @@ export interface ChatCompletionRequest {
   model: string;
   messages: ChatMessage[];
   stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
   temperature?: number;
   max_tokens?: number;
   max_completion_tokens?: number;  // OpenAI 新版 API 参数
@@ -211,9 +301,47 @@ export interface ChatCompletionRequest {
   presence_penalty?: number;
   stop?: string | string[];
   n?: number;
+  seed?: number;
+  logprobs?: boolean;
+  top_logprobs?: number;
+  top_k?: number;  // 非标准参数（extra body），映射为 Gemini topK
   user?: string;
   tools?: Tool[];
   tool_choice?: string | { type: "function"; function: { name: string } };
+  response_format?: ResponseFormat;
+  reasoning_effort?: string;
+  thinking?: ThinkingOptions;
+  modalities?: string[];  // 非标准参数，["text", "image"] 时请求图片输出
+  image_config?: ImageConfigOptions;
+}
+
+/**
+ * 图片输出配置（非标准参数，映射为 Gemini imageConfig）
+ */
+export interface ImageConfigOptions {
+  aspect_ratio?: string;
+  image_size?: string;
+}
+
+/**
+ * 思考配置（与 Anthropic thinking 参数一致）
+ */
+export interface ThinkingOptions {
+  type: "enabled" | "disabled";
+  budget_tokens?: number;
+}
+
+/**
+ * 响应格式（JSON 模式 / 结构化输出）
+ */
+export interface ResponseFormat {
+  type: "text" | "json_object" | "json_schema";
+  json_schema?: {
+    name: string;
+    description?: string;
+    schema?: Record<string, unknown>;
+    strict?: boolean;
+  };
 }
 
 /**
@@ -232,25 +360,49 @@ export interface Tool {
  * 聊天消息
  */
 export interface ChatMessage {
-  role: "system" | "user" | "assistant" | "function" | "tool";
+  role: "system" | "developer" | "user" | "assistant" | "function" | "tool";
   content: string | ContentPart[] | null;
   reasoning_content?: string | null;
+  // 思考内容的签名（非标准字段，即 Gemini thoughtSignature），多轮对话时需原样回传
+  reasoning_signature?: string;
+  // 加密的思考内容（非标准字段，即 Anthropic redacted_thinking.data），多轮对话时原样回传
+  redacted_reasoning?: string[];
   name?: string;
   function_call?: FunctionCall;
   tool_calls?: ToolCall[];
   tool_call_id?: string;
+  images?: ChatImage[];
+}
+
+/**
+ * 模型生成的图片
+ */
+export interface ChatImage {
+  type: "image_url";
+  image_url: {
+    url: string;
+  };
 }
 
 /**
  * 内容部分（支持多模态）
  */
 export interface ContentPart {
-  type: "text" | "image_url";
+  type: "text" | "image_url" | "input_audio" | "file";
   text?: string;
   image_url?: {
     url: string;
     detail?: "low" | "high" | "auto";
   };
+  input_audio?: {
+    data: string;
+    format: string;
+  };
+  file?: {
+    file_data?: string;
+    file_id?: string;
+    filename?: string;
+  };
 }
 
 /**
@@ -289,6 +441,8 @@ export interface ChatCompletionChoice {
   index: number;
   message: ChatMessage;
   finish_reason: "stop" | "length" | "function_call" | "tool_calls" | "content_filter" | null;
+  /** 上游原始结束原因（如 MALFORMED_FUNCTION_CALL） */
+  native_finish_reason?: string;
 }
 
 /**
@@ -298,6 +452,12 @@ export interface UsageInfo {
   prompt_tokens: number;
   completion_tokens: number;
   total_tokens: number;
+  prompt_tokens_details?: {
+    cached_tokens?: number;
+  };
+  completion_tokens_details?: {
+    reasoning_tokens?: number;
+  };
 }
 
 /**
@@ -309,6 +469,40 @@ export interface ChatCompletionChunk {
   created: number;
   model: string;
   choices: ChatCompletionChunkChoice[];
+  usage?: UsageInfo;
+}
+
+/**
+ * 流式增量消息
+ */
+export interface ChatCompletionDelta {
+  role?: "assistant";
+  content?: string | null;
+  reasoning_content?: string | null;
+  // 思考内容的签名，在思考内容之后发送（非标准字段）
+  reasoning_signature?: string;
+  tool_calls?: ToolCallDelta[];
+  images?: ChatImage[];
+}
+
+/**
+ * 流式工具调用增量（客户端按 index 累积参数）
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * 读取聊天完成流时的工具调用增量（兼容不带 index 的上游格式）
+ */
+export interface StreamToolCallDelta extends Omit<ToolCallDelta, "index"> {
+  index?: number;
 }
 
 /**
@@ -316,8 +510,318 @@ export interface ChatCompletionChunk {
  */
 export interface ChatCompletionChunkChoice {
   index: number;
-  delta: Partial<ChatMessage>;
+  delta: ChatCompletionDelta;
   finish_reason: "stop" | "length" | "function_call" | "tool_calls" | "content_filter" | null;
+  /** 上游原始结束原因（如 MALFORMED_FUNCTION_CALL） */
+  native_finish_reason?: string;
+}
+
+// ==================== Anthropic API相关类型 ====================
+
+/**
+ * Anthropic Messages 请求
+ */
+export interface AnthropicMessagesRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string | AnthropicTextBlock[];
+  max_tokens: number;
+  stream?: boolean;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  tools?: AnthropicTool[];
+  tool_choice?: {
+    type: "auto" | "any" | "tool" | "none";
+    name?: string;
+    disable_parallel_tool_use?: boolean;
+  };
+  thinking?: ThinkingOptions;
+  metadata?: {
+    user_id?: string;
+  };
+}
+
+/**
+ * Anthropic 消息
+ */
+export interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic 内容块
+ */
+export type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+/**
+ * Anthropic 文本块
+ */
+export interface AnthropicTextBlock {
+  type: "text";
+  text: string;
+}
+
+/**
+ * Anthropic 图片块
+ */
+export interface AnthropicImageBlock {
+  type: "image";
+  source:
+    | { type: "base64"; media_type: string; data: string }
+    | { type: "url"; url: string };
+}
+
+/**
+ * Anthropic 工具调用块
+ */
+export interface AnthropicToolUseBlock {
+  type: "tool_use";
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Anthropic 工具结果块
+ */
+export interface AnthropicToolResultBlock {
+  type: "tool_result";
+  tool_use_id: string;
+  content?: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+}
+
+/**
+ * Anthropic 思考块
+ */
+export interface AnthropicThinkingBlock {
+  type: "thinking";
+  thinking: string;
+  signature?: string;
+}
+
+/**
+ * Anthropic 已脱敏思考块
+ */
+export interface AnthropicRedactedThinkingBlock {
+  type: "redacted_thinking";
+  data: string;
+}
+
+/**
+ * Anthropic 工具定义
+ */
+export interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+}
+
+/**
+ * Anthropic Messages 响应
+ */
+export interface AnthropicMessagesResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: AnthropicContentBlock[];
+  stop_reason: "end_turn" | "max_tokens" | "stop_sequence" | "tool_use" | "refusal" | null;
+  stop_sequence: string | null;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// ==================== Responses API相关类型 ====================
+
+/**
+ * OpenAI Responses 请求
+ */
+export interface ResponsesRequest {
+  model: string;
+  input: string | ResponsesItem[];
+  instructions?: string;
+  previous_response_id?: string;
+  stream?: boolean;
+  tools?: ResponsesTool[];
+  tool_choice?: string | { type: "function"; name: string };
+  parallel_tool_calls?: boolean;
+  max_output_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  reasoning?: {
+    effort?: string;
+    summary?: string;
+  };
+  text?: {
+    format?: ResponsesTextFormat;
+    [key: string]: unknown;
+  };
+  store?: boolean;
+  metadata?: Record<string, string>;
+  user?: string;
+}
+
+/**
+ * Responses 输出格式（text.format），json_schema 的字段直接展开在 format 中
+ */
+export interface ResponsesTextFormat {
+  type: "text" | "json_object" | "json_schema";
+  name?: string;
+  description?: string;
+  schema?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+/**
+ * Responses 输入/输出项
+ * message、function_call、function_call_output、reasoning 等类型共用
+ */
+export interface ResponsesItem {
+  type?: string;
+  id?: string;
+  role?: "user" | "assistant" | "system" | "developer";
+  content?: string | ResponsesContentPart[];
+  status?: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+  output?: string;
+  summary?: Array<{ type: string; text: string }>;
+  encrypted_content?: string;
+}
+
+/**
+ * Responses 内容部分
+ */
+export interface ResponsesContentPart {
+  type: "input_text" | "output_text" | "input_image" | "input_file" | "refusal";
+  text?: string;
+  image_url?: string;
+  detail?: "low" | "high" | "auto";
+  file_data?: string;
+  filename?: string;
+  refusal?: string;
+  annotations?: unknown[];
+}
+
+/**
+ * Responses 工具定义
+ */
+export interface ResponsesTool {
+  type: string;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  strict?: boolean;
+}
+
+/**
+ * OpenAI Responses 响应对象
+ */
+export interface ResponsesResponse {
+  id: string;
+  object: "response";
+  created_at: number;
+  status: "completed" | "incomplete" | "in_progress" | "failed";
+  model: string;
+  output: ResponsesItem[];
+  previous_response_id: string | null;
+  incomplete_details: { reason: string } | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// ==================== Completions API相关类型 ====================
+
+/**
+ * 旧版文本补全请求（/v1/completions）
+ */
+export interface CompletionRequest {
+  model: string;
+  prompt: string | string[] | number[] | number[][];
+  suffix?: string;
+  echo?: boolean;
+  stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
+  max_tokens?: number;
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  best_of?: number;
+  stop?: string | string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  seed?: number;
+  logprobs?: number | null;
+  user?: string;
+}
+
+/**
+ * 文本补全选项
+ */
+export interface CompletionChoice {
+  text: string;
+  index: number;
+  logprobs: null;
+  finish_reason: "stop" | "length" | "content_filter" | null;
+}
+
+/**
+ * 文本补全响应（流式chunk使用相同结构）
+ */
+export interface CompletionResponse {
+  id: string;
+  object: "text_completion";
+  created: number;
+  model: string;
+  choices: CompletionChoice[];
+  usage?: UsageInfo;
+}
+
+// ==================== Images API相关类型 ====================
+
+/**
+ * 图片生成请求（/v1/images/generations）
+ */
+export interface ImageGenerationRequest {
+  prompt: string;
+  model?: string;
+  n?: number;
+  size?: string;
+  quality?: string;
+  response_format?: "b64_json" | "url";
+  aspect_ratio?: string;  // 非标准参数，优先于 size
+  user?: string;
+}
+
+/**
+ * 图片接口响应
+ */
+export interface ImagesResponse {
+  created: number;
+  data: Array<{
+    b64_json?: string;
+    url?: string;
+    revised_prompt?: string;
+  }>;
+  usage?: UsageInfo;
 }
 
 // ==================== Gemini API相关类型 ====================
@@ -342,6 +846,7 @@ export interface GeminiPart {
     data: string;
   };
   functionCall?: {
+    id?: string;
     name: string;
     args: Record<string, unknown>;
   };
@@ -359,6 +864,19 @@ export interface SafetySetting {
   threshold: string;
 }
 
+/**
+ * Gemini 原生 generateContent 请求
+ */
+export interface GeminiGenerateContentRequest {
+  contents: GeminiContent[];
+  systemInstruction?: GeminiContent | { parts: GeminiPart[] };
+  generationConfig?: Record<string, unknown>;
+  safetySettings?: SafetySetting[];
+  tools?: Array<Record<string, unknown>>;
+  toolConfig?: Record<string, unknown>;
+  cachedContent?: string;
+}
+
 /**
  * Antigravity请求
  */
@@ -377,6 +895,22 @@ export interface AntigravityRequest {
       thinkingConfig?: {
         thinkingBudget?: number;
         thinkingLevel?: string;
+        includeThoughts?: boolean;
+      };
+      responseMimeType?: string;
+      responseSchema?: Record<string, unknown>;
+      // 标准 JSON Schema 形式的输出 schema（claude 模型使用）
+      responseJsonSchema?: Record<string, unknown>;
+      stopSequences?: string[];
+      candidateCount?: number;
+      presencePenalty?: number;
+      frequencyPenalty?: number;
+      seed?: number;
+      topK?: number;
+      responseModalities?: string[];
+      imageConfig?: {
+        aspectRatio?: string;
+        imageSize?: string;
       };
     };
     safetySettings?: SafetySetting[];
@@ -397,20 +931,28 @@ export interface AntigravityRequest {
   };
 }
 
+/**
+ * Gemini token 用量
+ */
+export interface GeminiUsageMetadata {
+  promptTokenCount: number;
+  candidatesTokenCount: number;
+  totalTokenCount: number;
+  thoughtsTokenCount?: number;
+  cachedContentTokenCount?: number;
+}
+
 /**
  * Antigravity响应
  */
 export interface AntigravityResponse {
   response: {
     candidates: Array<{
+      index?: number;
       content: GeminiContent;
       finishReason: string;
     }>;
-    usageMetadata?: {
-      promptTokenCount: number;
-      candidatesTokenCount: number;
-      totalTokenCount: number;
-    };
+    usageMetadata?: GeminiUsageMetadata;
     modelVersion?: string;
     responseId?: string;
   };
@@ -1,40 +1,152 @@
 import { getConfig } from "../config.ts";
 
 /**
- * 创建HTTP客户端
+ * 按代理 URL 缓存的共享 HTTP 客户端
  */
-export function createHttpClient(timeoutSeconds: number = 300): {
-  fetch: typeof fetch;
-  timeout: number;
-} {
+const httpClients = new Map<string, Deno.HttpClient>();
+
+/**
+ * 代理 URL 转 Deno.Proxy
+ * 支持 http、https、socks5、socks5h，URL 中的用户名和密码作为代理认证；
+ * 格式错误时抛出 ProxyConfigError，设置代理时（配置加载、账号代理接口）应先用它校验
+ */
+export function parseProxyUrl(proxyUrl: string): Deno.Proxy {
+  let url: URL;
+  try {
+    url = new URL(proxyUrl);
+  } catch {
+    throw new ProxyConfigError("Invalid proxy URL");
+  }
+  const protocol = url.protocol.replace(/:$/, "");
+  if (!["http", "https", "socks5", "socks5h"].includes(protocol)) {
+    throw new ProxyConfigError(`Unsupported proxy protocol '${protocol}'; use http, https, socks5 or socks5h`);
+  }
+
+  const basicAuth = url.username
+    ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+    : undefined;
+  url.username = "";
+  url.password = "";
+
   return {
-    fetch: fetch,
-    timeout: timeoutSeconds * 1000,
+    transport: protocol.startsWith("socks5") ? "socks5" : protocol as "http" | "https",
+    url: url.toString().replace(/\/$/, ""),
+    basicAuth,
   };
 }
 
+/**
+ * 运行环境是否支持自定义 HTTP 客户端（Deno Deploy 不支持，出站请求只能直连）
+ */
+function supportsProxy(): boolean {
+  return typeof Deno.createHttpClient === "function";
+}
+
+/**
+ * 获取出站请求使用的 HTTP 客户端
+ * 账号级代理优先于全局 upstreamProxy；未配置代理或运行环境不支持自定义客户端（如 Deno Deploy）时直接连接。
+ * 代理 URL 无效时抛出 ProxyConfigError（服务端配置错误，账号轮换时换下一个账号）
+ * @param proxyUrl 账号级代理 URL
+ */
+export function getHttpClient(proxyUrl?: string): Deno.HttpClient | undefined {
+  const upstreamProxy = getConfig().upstreamProxy;
+  const url = proxyUrl || (upstreamProxy?.enabled ? upstreamProxy.url : undefined);
+  if (!url || !supportsProxy()) {
+    return undefined;
+  }
+
+  let client = httpClients.get(url);
+  if (!client) {
+    client = Deno.createHttpClient({ proxy: parseProxyUrl(url) });
+    httpClients.set(url, client);
+  }
+  return client;
+}
+
+/**
+ * 通过共享 HTTP 客户端发送请求（所有出站请求的入口）
+ * @param proxyUrl 账号级代理 URL，省略时使用全局配置
+ */
+export function httpFetch(
+  url: string | URL,
+  init: RequestInit = {},
+  proxyUrl?: string
+): Promise<Response> {
+  const client = getHttpClient(proxyUrl);
+  return fetch(url, client ? { ...init, client } : init);
+}
+
+/**
+ * 测试代理连通性：经代理请求目标地址，收到任意 HTTP 响应即视为连通
+ * 使用独立的 HTTP 客户端，测试结束后关闭，不影响共享客户端；运行环境不支持代理时直接返回失败
+ * @param proxyUrl 代理 URL，省略时直接连接
+ */
+export async function testProxyConnectivity(
+  proxyUrl: string | undefined,
+  targetUrl: string,
+  timeoutMs: number = 15000
+): Promise<{ success: boolean; status?: number; latencyMs: number; error?: string }> {
+  const proxy = proxyUrl ? parseProxyUrl(proxyUrl) : undefined;
+  if (proxy && !supportsProxy()) {
+    return { success: false, latencyMs: 0, error: "Proxies are not supported on this runtime (e.g. Deno Deploy)" };
+  }
+
+  const client = proxy ? Deno.createHttpClient({ proxy }) : undefined;
+  const start = Date.now();
+
+  try {
+    const response = await fetch(targetUrl, {
+      method: "GET",
+      signal: AbortSignal.timeout(timeoutMs),
+      ...(client ? { client } : {}),
+    });
+    await response.body?.cancel();
+    return { success: true, status: response.status, latencyMs: Date.now() - start };
+  } catch (error) {
+    return { success: false, latencyMs: Date.now() - start, error: String(error) };
+  } finally {
+    client?.close();
+  }
+}
+
 /**
  * 带超时的fetch
+ * @param proxyUrl 账号级代理 URL，省略时使用全局配置
  */
 export async function fetchWithTimeout(
   url: string,
   options: RequestInit = {},
-  timeoutMs: number = 300000
+  timeoutMs: number = 300000,
+  proxyUrl?: string
 ): Promise<Response> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
   
   try {
-    const response = await fetch(url, {
+    const response = await httpFetch(url, {
       ...options,
       signal: controller.signal,
-    });
+    }, proxyUrl);
     return response;
   } finally {
     clearTimeout(timeoutId);
   }
 }
 
+/**
+ * 创建随客户端请求一起中止的 AbortController
+ * 客户端断开时自动中止；流式响应的 cancel 钩子也可以单独中止上游请求
+ */
+export function createLinkedAbortController(signal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
+  }
+  return controller;
+}
+
 /**
  * 解析SSE行
  */
@@ -56,9 +168,11 @@ export function parseSSELine(line: string): { event?: string; data?: string } |
 
 /**
  * 创建SSE流读取器
+ * @param signal 中止时取消响应体，生成器随即结束
  */
 export async function* readSSEStream(
-  response: Response
+  response: Response,
+  signal?: AbortSignal
 ): AsyncGenerator<string, void, unknown> {
   const reader = response.body?.getReader();
   if (!reader) {
@@ -67,11 +181,21 @@ export async function* readSSEStream(
   
   const decoder = new TextDecoder();
   let buffer = "";
+  let finished = false;
+  const cancel = () => reader.cancel(signal?.reason).catch(() => {});
+  if (signal?.aborted) {
+    cancel();
+  } else {
+    signal?.addEventListener("abort", cancel, { once: true });
+  }
   
   try {
     while (true) {
       const { done, value } = await reader.read();
-      if (done) break;
+      if (done) {
+        finished = true;
+        break;
+      }
       
       buffer += decoder.decode(value, { stream: true });
       const lines = buffer.split("\n");
@@ -87,6 +211,10 @@ export async function* readSSEStream(
       }
     }
     
+    if (signal?.aborted) {
+      return;
+    }
+
     // 处理剩余的buffer
     if (buffer.startsWith("data:")) {
       const data = buffer.slice(5).trim();
@@ -95,6 +223,11 @@ export async function* readSSEStream(
       }
     }
   } finally {
+    signal?.removeEventListener("abort", cancel);
+    // 调用方提前结束迭代或读取出错时取消响应体，释放上游连接
+    if (!finished) {
+      await reader.cancel().catch(() => {});
+    }
     reader.releaseLock();
   }
 }
@@ -153,20 +286,42 @@ export function log(level: "debug" | "info" | "warn" | "error", message: string,
   }
 }
 
+/**
+ * 请求参数错误（返回 400 invalid_request_error）
+ */
+export class InvalidRequestError extends Error {
+  constructor(message: string, public param?: string) {
+    super(message);
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * 代理配置错误（代理 URL 格式或协议无效）
+ */
+export class ProxyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProxyConfigError";
+  }
+}
+
 /**
  * 错误响应
+ * @param code 错误码（如 context_length_exceeded），默认为状态码
  */
 export function errorResponse(
   status: number,
   message: string,
-  type: string = "error"
+  type: string = "error",
+  code?: string
 ): Response {
   return new Response(
     JSON.stringify({
       error: {
         message,
         type,
-        code: status,
+        code: code ?? status,
       },
     }),
     {
@@ -178,6 +333,28 @@ export function errorResponse(
   );
 }
 
+/**
+ * 客户端已断开时的响应（499，客户端不会收到，仅用于日志；统计由调用方记录）
+ * @param provider 日志中的上游名称
+ */
+export function cancelledResponse(provider: string, model: string): Response {
+  log("info", `Request cancelled by client: ${provider} ${model}`);
+  return errorResponse(499, "Client closed request", "request_cancelled");
+}
+
+/**
+ * 流式错误事件（与 errorResponse 相同的 error 结构）
+ * 流开始后无法再修改状态码，错误以 data 事件发送，调用方随后发送 [DONE]
+ * @param status 上游状态码，连接中断等无状态码的错误使用 502
+ */
+export function sseErrorEvent(
+  message: string,
+  status: number = 502,
+  type: string = "upstream_error"
+): string {
+  return `data: ${JSON.stringify({ error: { message, type, code: status } })}\n\n`;
+}
+
 /**
  * JSON响应
  */